@@ -9,6 +9,7 @@ import DashboardPage from './pages/DashboardPage';
 import CollageEditorPage from './pages/CollageEditorPage';
 import CollageViewerPage from './pages/CollageViewerPage';
 import CollageModerationPage from './pages/CollageModerationPage';
+import CollageRemotePage from './pages/CollageRemotePage';
 import PhotoboothPage from './pages/PhotoboothPage';
 import JoinCollage from './pages/JoinCollage';
 
@@ -29,6 +30,7 @@ function App() {
         {/* Protected routes - require authentication */}
         <Route path="/dashboard" element={<DashboardPage />} />
         <Route path="/dashboard/collage/:id" element={<CollageEditorPage />} />
+        <Route path="/dashboard/collage/:id/remote" element={<CollageRemotePage />} />
         <Route path="/collage/:id/moderation" element={<CollageModerationPage />} />
         <Route path="/moderation/:id" element={<CollageModerationPage />} />
       </Routes>
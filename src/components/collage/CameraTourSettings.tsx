@@ -0,0 +1,259 @@
+// src/components/collage/CameraTourSettings.tsx - Records camera keyframes and arranges them on a looping timeline
+import React from 'react';
+import { nanoid } from 'nanoid';
+import { ArrowDown, ArrowUp, Crosshair, Eye, Plus, RefreshCw, Trash2, Video } from 'lucide-react';
+import { type SceneSettings, type CameraKeyframe } from '../../store/sceneStore';
+import { captureLiveCamera, getTourDuration, moveLiveCamera } from '../three/CameraTour';
+
+const DEFAULT_TRAVEL_SECONDS = 4;
+const DEFAULT_HOLD_SECONDS = 2;
+
+const EASING_OPTIONS: { value: CameraKeyframe['easing']; label: string }[] = [
+  { value: 'easeInOut', label: 'Ease In/Out' },
+  { value: 'easeOut', label: 'Ease Out' },
+  { value: 'easeOutBack', label: 'Overshoot' },
+  { value: 'linear', label: 'Linear' },
+];
+
+const formatSeconds = (seconds: number) =>
+  seconds >= 60 ? `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s` : `${Number(seconds.toFixed(1))}s`;
+
+const CameraTourSettings: React.FC<{
+  settings: SceneSettings;
+  onSettingsChange: (settings: Partial<SceneSettings>, debounce?: boolean) => void;
+}> = ({ settings, onSettingsChange }) => {
+  const tour = Array.isArray(settings.cameraTour) ? settings.cameraTour : [];
+  const isPlaying = Boolean(settings.cameraTourEnabled);
+  const duration = getTourDuration(tour);
+
+  const updateTour = (keyframes: CameraKeyframe[], debounce?: boolean) => {
+    onSettingsChange({ cameraTour: keyframes }, debounce);
+  };
+
+  const updateKeyframe = (id: string, changes: Partial<CameraKeyframe>, debounce?: boolean) => {
+    updateTour(tour.map((keyframe) => (keyframe.id === id ? { ...keyframe, ...changes } : keyframe)), debounce);
+  };
+
+  const moveKeyframe = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= tour.length) return;
+    const keyframes = [...tour];
+    [keyframes[index], keyframes[target]] = [keyframes[target], keyframes[index]];
+    updateTour(keyframes);
+  };
+
+  const addKeyframe = () => {
+    const view = captureLiveCamera();
+    if (!view) return;
+
+    updateTour([
+      ...tour,
+      {
+        id: nanoid(8),
+        ...view,
+        travelSeconds: DEFAULT_TRAVEL_SECONDS,
+        holdSeconds: DEFAULT_HOLD_SECONDS,
+        easing: 'easeInOut'
+      }
+    ]);
+  };
+
+  const recaptureKeyframe = (id: string) => {
+    const view = captureLiveCamera();
+    if (view) updateKeyframe(id, view);
+  };
+
+  return (
+    <div>
+      <h4 className="flex items-center text-sm font-medium text-gray-200 mb-3">
+        <Video className="h-4 w-4 mr-2" />
+        Camera Tour
+      </h4>
+
+      <div className="space-y-4">
+        <div className="flex items-center">
+          <input
+            type="checkbox"
+            checked={isPlaying}
+            disabled={tour.length === 0}
+            onChange={(e) => onSettingsChange({
+              cameraTourEnabled: e.target.checked
+            })}
+            className="mr-2 bg-gray-800 border-gray-700"
+          />
+          <label className="text-sm text-gray-300">
+            Play tour on the live display
+          </label>
+        </div>
+
+        {isPlaying ? (
+          <p className="text-xs text-gray-400">
+            The camera follows the tour while it plays. Turn playback off to move the camera and record keyframes.
+          </p>
+        ) : (
+          <p className="text-xs text-gray-400">
+            Frame a shot in the preview, then add it as a keyframe. The tour loops back to the first keyframe.
+          </p>
+        )}
+
+        {/* Timeline - each keyframe is its flight in (striped) followed by its hold (solid) */}
+        {tour.length > 0 && duration > 0 && (
+          <div>
+            <div className="flex h-6 rounded overflow-hidden bg-gray-900 border border-gray-700">
+              {tour.map((keyframe, index) => (
+                <React.Fragment key={keyframe.id}>
+                  <div
+                    className="bg-purple-600/40"
+                    style={{
+                      width: `${(keyframe.travelSeconds / duration) * 100}%`,
+                      backgroundImage: 'repeating-linear-gradient(45deg, transparent 0 4px, rgba(255, 255, 255, 0.08) 4px 8px)'
+                    }}
+                    title={`Fly to keyframe ${index + 1}: ${formatSeconds(keyframe.travelSeconds)}`}
+                  />
+                  <div
+                    className="bg-purple-500 flex items-center justify-center text-[10px] text-white border-r border-gray-900"
+                    style={{ width: `${(keyframe.holdSeconds / duration) * 100}%` }}
+                    title={`Hold keyframe ${index + 1}: ${formatSeconds(keyframe.holdSeconds)}`}
+                  >
+                    {keyframe.holdSeconds / duration > 0.04 && index + 1}
+                  </div>
+                </React.Fragment>
+              ))}
+            </div>
+            <div className="flex justify-between mt-1 text-xs text-gray-500">
+              <span>0s</span>
+              <span>Loop: {formatSeconds(duration)}</span>
+            </div>
+          </div>
+        )}
+
+        {tour.map((keyframe, index) => (
+          <div key={keyframe.id} className="bg-gray-800 p-3 rounded space-y-3">
+            <div className="flex items-center space-x-2">
+              <span className="text-xs text-gray-500 w-4">{index + 1}</span>
+              <span className="flex-1 text-xs text-gray-400 font-mono truncate">
+                {keyframe.position.map((value) => value.toFixed(0)).join(', ')}
+              </span>
+              <button
+                onClick={() => moveLiveCamera(keyframe)}
+                disabled={isPlaying}
+                className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                title="Show this view"
+              >
+                <Eye className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => recaptureKeyframe(keyframe.id)}
+                disabled={isPlaying}
+                className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                title="Replace with current view"
+              >
+                <RefreshCw className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => moveKeyframe(index, -1)}
+                disabled={index === 0}
+                className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                title="Move earlier"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => moveKeyframe(index, 1)}
+                disabled={index === tour.length - 1}
+                className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                title="Move later"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => {
+                  const remaining = tour.filter((entry) => entry.id !== keyframe.id);
+                  onSettingsChange({
+                    cameraTour: remaining,
+                    cameraTourEnabled: remaining.length > 0 && isPlaying
+                  });
+                }}
+                className="p-1 text-gray-400 hover:text-red-400"
+                title="Remove"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs text-gray-300 mb-1">
+                  Travel
+                  <span className="ml-2 text-gray-400">{formatSeconds(keyframe.travelSeconds)}</span>
+                </label>
+                <input
+                  type="range"
+                  min="0.5"
+                  max="30"
+                  step="0.5"
+                  value={keyframe.travelSeconds}
+                  onChange={(e) => updateKeyframe(keyframe.id, { travelSeconds: parseFloat(e.target.value) }, true)}
+                  className="w-full bg-gray-900"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-300 mb-1">
+                  Hold
+                  <span className="ml-2 text-gray-400">{formatSeconds(keyframe.holdSeconds)}</span>
+                </label>
+                <input
+                  type="range"
+                  min="0"
+                  max="60"
+                  step="0.5"
+                  value={keyframe.holdSeconds}
+                  onChange={(e) => updateKeyframe(keyframe.id, { holdSeconds: parseFloat(e.target.value) }, true)}
+                  className="w-full bg-gray-900"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-300 mb-1">Easing</label>
+                <select
+                  value={keyframe.easing}
+                  onChange={(e) => updateKeyframe(keyframe.id, { easing: e.target.value as CameraKeyframe['easing'] })}
+                  className="w-full bg-gray-900 border border-gray-700 rounded-md py-1 px-2 text-white text-xs"
+                >
+                  {EASING_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-300 mb-1">
+                  Field of View
+                  <span className="ml-2 text-gray-400">{keyframe.fov.toFixed(0)}°</span>
+                </label>
+                <input
+                  type="range"
+                  min="20"
+                  max="100"
+                  step="1"
+                  value={keyframe.fov}
+                  onChange={(e) => updateKeyframe(keyframe.id, { fov: parseFloat(e.target.value) }, true)}
+                  className="w-full bg-gray-900"
+                />
+              </div>
+            </div>
+          </div>
+        ))}
+
+        <button
+          onClick={addKeyframe}
+          disabled={isPlaying}
+          className="w-full px-3 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:hover:bg-gray-700 text-white rounded-md transition-colors text-sm flex items-center justify-center space-x-1"
+        >
+          {tour.length === 0 ? <Crosshair className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+          <span>Add Keyframe From Current View</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CameraTourSettings;
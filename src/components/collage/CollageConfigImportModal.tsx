@@ -0,0 +1,108 @@
+// src/components/collage/CollageConfigImportModal.tsx - Preview of what importing a configuration file would change
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, FileInput, X } from 'lucide-react';
+import { type SceneSettings } from '../../store/sceneStore';
+import { describeSettingsChanges, type ParsedCollageConfig } from '../../lib/collageConfig';
+
+const CollageConfigImportModal: React.FC<{
+  config: ParsedCollageConfig;
+  fileName: string;
+  currentName: string;
+  currentSettings: SceneSettings;
+  onConfirm: (options: { includeName: boolean }) => void;
+  onCancel: () => void;
+}> = ({ config, fileName, currentName, currentSettings, onConfirm, onCancel }) => {
+  const changes = useMemo(
+    () => describeSettingsChanges(currentSettings, config.settings),
+    [currentSettings, config.settings]
+  );
+  const nameChanges = Boolean(config.name) && config.name !== currentName;
+  const [includeName, setIncludeName] = useState(false);
+  const nothingToApply = changes.length === 0 && !(nameChanges && includeName);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80">
+      <div className="bg-gray-900 rounded-lg w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-gray-800 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-white">Import Configuration</h2>
+            <p className="text-xs text-gray-400 truncate">{fileName}</p>
+          </div>
+          <button onClick={onCancel} className="p-2 text-gray-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-auto">
+          {config.issues.length > 0 && (
+            <div className="flex items-start space-x-2 p-3 bg-yellow-900/30 border border-yellow-700/50 rounded text-sm text-yellow-200">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>
+                Some values in the file were invalid and will use defaults instead: {config.issues.join(', ')}
+              </span>
+            </div>
+          )}
+
+          {nameChanges && (
+            <label className="flex items-center text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={includeName}
+                onChange={(e) => setIncludeName(e.target.checked)}
+                className="mr-2 bg-gray-800 border-gray-700"
+              />
+              Also rename this collage to "{config.name}"
+            </label>
+          )}
+
+          {changes.length === 0 ? (
+            <p className="text-sm text-gray-400">The file's settings match this collage - nothing would change.</p>
+          ) : (
+            <div>
+              <p className="text-sm text-gray-300 mb-2">
+                {changes.length} setting{changes.length === 1 ? '' : 's'} will change:
+              </p>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-gray-800">
+                    <th className="py-1 pr-2 font-medium">Setting</th>
+                    <th className="py-1 pr-2 font-medium">Current</th>
+                    <th className="py-1 font-medium">Imported</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {changes.map((change) => (
+                    <tr key={change.key} className="border-b border-gray-800/50 align-top">
+                      <td className="py-1 pr-2 font-mono text-gray-300">{change.key}</td>
+                      <td className="py-1 pr-2 text-red-300 break-all">{change.from}</td>
+                      <td className="py-1 text-green-300 break-all">{change.to}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-800 flex justify-end space-x-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-md text-sm transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm({ includeName: nameChanges && includeName })}
+            disabled={nothingToApply}
+            className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white rounded-md text-sm transition-colors flex items-center space-x-2"
+          >
+            <FileInput className="w-4 h-4" />
+            <span>Apply Import</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CollageConfigImportModal;
@@ -99,7 +99,7 @@ const CollagePhotos: React.FC<CollagePhotosProps> = ({ collageId, onManualRefres
           {photos.map((photo) => (
             <div key={photo.id} className="relative group">
               <img
-                src={photo.url}
+                src={photo.thumbnail_url || photo.url}
                 alt={`Photo ${photo.id}`}
                 className="w-full h-32 object-cover rounded-lg shadow-sm border border-gray-600 hover:border-gray-500 transition-colors"
                 onError={(e) => {
@@ -0,0 +1,170 @@
+// src/components/collage/PatternParamControl.tsx
+import React, { useRef, useState } from 'react';
+import { Upload, X } from 'lucide-react';
+import { type PatternParamValue } from '../../store/sceneStore';
+import { useCollageStore } from '../../store/collageStore';
+import { type PatternParamSchema } from '../three/patterns/PatternRegistry';
+
+// Image parameters upload to collage storage and keep the resulting public URL
+const ImageParamControl: React.FC<{
+  label: string;
+  description?: string;
+  value: string;
+  onChange: (value: PatternParamValue) => void;
+}> = ({ label, description, value, onChange }) => {
+  const { currentCollage, uploadPatternAsset } = useCollageStore();
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file || !currentCollage) return;
+    setUploading(true);
+    setError(null);
+    try {
+      const url = await uploadPatternAsset(currentCollage.id, file);
+      onChange(url);
+    } catch (err: any) {
+      setError(err.message || 'Upload failed');
+    } finally {
+      setUploading(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-sm text-gray-300 mb-2">{label}</label>
+      {value ? (
+        <div className="flex items-center space-x-2 bg-gray-800 p-2 rounded">
+          <img src={value} alt={label} className="h-12 w-12 object-contain bg-gray-900 rounded" />
+          <span className="flex-1 text-xs text-gray-400 truncate">{value.split('/').pop()}</span>
+          <button
+            onClick={() => onChange('')}
+            className="p-1 text-gray-400 hover:text-red-400"
+            title="Remove image"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ) : null}
+      <button
+        onClick={() => inputRef.current?.click()}
+        disabled={uploading || !currentCollage}
+        className="mt-2 w-full px-3 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white rounded-md transition-colors text-sm flex items-center justify-center space-x-1"
+      >
+        <Upload className="w-4 h-4" />
+        <span>{uploading ? 'Uploading...' : value ? 'Replace Image' : 'Upload Image'}</span>
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/png,image/jpeg,image/webp,image/gif"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+      {error && <p className="mt-1 text-xs text-red-400">{error}</p>}
+      {description && (
+        <p className="mt-1 text-xs text-gray-400">{description}</p>
+      )}
+    </div>
+  );
+};
+
+// Renders one control for a registered pattern parameter
+const PatternParamControl: React.FC<{
+  param: PatternParamSchema;
+  value: PatternParamValue | undefined;
+  onChange: (value: PatternParamValue, debounce?: boolean) => void;
+}> = ({ param, value, onChange }) => {
+  switch (param.type) {
+    case 'range': {
+      const numericValue = typeof value === 'number' ? value : param.min;
+      return (
+        <div>
+          <label className="block text-sm text-gray-300 mb-2">
+            {param.label}
+            <span className="ml-2 text-xs text-gray-400">
+              {Number.isInteger(param.step) ? numericValue.toFixed(0) : numericValue.toFixed(2)}
+              {param.unit ? ` ${param.unit}` : ''}
+            </span>
+          </label>
+          <input
+            type="range"
+            min={param.min}
+            max={param.max}
+            step={param.step}
+            value={numericValue}
+            onChange={(e) => onChange(parseFloat(e.target.value), true)}
+            className="w-full bg-gray-800"
+          />
+          {param.description && (
+            <p className="mt-1 text-xs text-gray-400">{param.description}</p>
+          )}
+        </div>
+      );
+    }
+    case 'toggle':
+      return (
+        <div>
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              checked={Boolean(value)}
+              onChange={(e) => onChange(e.target.checked)}
+              className="mr-2 bg-gray-800 border-gray-700"
+            />
+            <label className="text-sm text-gray-300">{param.label}</label>
+          </div>
+          {param.description && (
+            <p className="mt-1 text-xs text-gray-400">{param.description}</p>
+          )}
+        </div>
+      );
+    case 'select':
+      return (
+        <div>
+          <label className="block text-sm text-gray-300 mb-2">{param.label}</label>
+          <select
+            value={String(value ?? '')}
+            onChange={(e) => onChange(e.target.value)}
+            className="w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-3 text-white"
+          >
+            {param.options.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          {param.description && (
+            <p className="mt-1 text-xs text-gray-400">{param.description}</p>
+          )}
+        </div>
+      );
+    case 'text':
+      return (
+        <div>
+          <label className="block text-sm text-gray-300 mb-2">{param.label}</label>
+          <input
+            type="text"
+            value={String(value ?? '')}
+            placeholder={param.placeholder}
+            onChange={(e) => onChange(e.target.value, true)}
+            className="w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-3 text-white"
+          />
+          {param.description && (
+            <p className="mt-1 text-xs text-gray-400">{param.description}</p>
+          )}
+        </div>
+      );
+    case 'image':
+      return (
+        <ImageParamControl
+          label={param.label}
+          description={param.description}
+          value={String(value ?? '')}
+          onChange={onChange}
+        />
+      );
+  }
+};
+
+export default PatternParamControl;
@@ -0,0 +1,186 @@
+// src/components/collage/PatternPlaylistSettings.tsx - Editor for the auto-cycling pattern playlist
+import React from 'react';
+import { nanoid } from 'nanoid';
+import { ArrowDown, ArrowUp, ListVideo, Plus, Trash2 } from 'lucide-react';
+import { type SceneSettings, type PatternPlaylistItem } from '../../store/sceneStore';
+import { PatternFactory } from '../three/patterns/PatternFactory';
+import { PatternRegistry } from '../three/patterns/PatternRegistry';
+import PatternParamControl from './PatternParamControl';
+
+const DEFAULT_DWELL_SECONDS = 60;
+
+const PatternPlaylistSettings: React.FC<{
+  settings: SceneSettings;
+  onSettingsChange: (settings: Partial<SceneSettings>, debounce?: boolean) => void;
+}> = ({ settings, onSettingsChange }) => {
+  const patternDefinitions = PatternFactory.getPatterns();
+  const playlist = Array.isArray(settings.patternPlaylist) ? settings.patternPlaylist : [];
+
+  const updatePlaylist = (items: PatternPlaylistItem[], debounce?: boolean) => {
+    onSettingsChange({ patternPlaylist: items }, debounce);
+  };
+
+  const updateItem = (id: string, changes: Partial<PatternPlaylistItem>, debounce?: boolean) => {
+    updatePlaylist(playlist.map((item) => (item.id === id ? { ...item, ...changes } : item)), debounce);
+  };
+
+  const moveItem = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= playlist.length) return;
+    const items = [...playlist];
+    [items[index], items[target]] = [items[target], items[index]];
+    updatePlaylist(items);
+  };
+
+  const addItem = () => {
+    // Suggest the next pattern in the list so a fresh playlist cycles through every layout
+    const last = playlist[playlist.length - 1];
+    const lastIndex = patternDefinitions.findIndex((pattern) => pattern.id === (last?.pattern ?? settings.animationPattern));
+    const next = patternDefinitions[(lastIndex + 1) % patternDefinitions.length];
+
+    updatePlaylist([
+      ...playlist,
+      { id: nanoid(8), pattern: next?.id || settings.animationPattern, dwellSeconds: DEFAULT_DWELL_SECONDS, overrides: {} }
+    ]);
+  };
+
+  return (
+    <div>
+      <h4 className="flex items-center text-sm font-medium text-gray-200 mb-3">
+        <ListVideo className="h-4 w-4 mr-2" />
+        Pattern Playlist
+      </h4>
+
+      <div className="space-y-4">
+        <div className="flex items-center">
+          <input
+            type="checkbox"
+            checked={Boolean(settings.patternPlaylistEnabled)}
+            onChange={(e) => onSettingsChange({
+              patternPlaylistEnabled: e.target.checked
+            })}
+            className="mr-2 bg-gray-800 border-gray-700"
+          />
+          <label className="text-sm text-gray-300">
+            Auto-cycle patterns on the live display
+          </label>
+        </div>
+
+        {settings.patternPlaylistEnabled && (
+          <div className="space-y-3">
+            {playlist.length === 0 && (
+              <p className="text-xs text-gray-400">
+                Add patterns below. The viewer plays them in order and loops back to the first.
+              </p>
+            )}
+
+            {playlist.map((item, index) => {
+              const definition = PatternFactory.getPattern(item.pattern);
+              const params = { ...PatternRegistry.resolveParams(item.pattern, settings), ...item.overrides };
+
+              return (
+                <div key={item.id} className="bg-gray-800 p-3 rounded space-y-3">
+                  <div className="flex items-center space-x-2">
+                    <span className="text-xs text-gray-500 w-4">{index + 1}</span>
+                    <select
+                      value={item.pattern}
+                      onChange={(e) => updateItem(item.id, { pattern: e.target.value, overrides: {} })}
+                      className="flex-1 bg-gray-900 border border-gray-700 rounded-md py-1 px-2 text-white text-sm"
+                    >
+                      {!definition && <option value={item.pattern}>{item.pattern} (unavailable)</option>}
+                      {patternDefinitions.map((pattern) => (
+                        <option key={pattern.id} value={pattern.id}>{pattern.name}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => moveItem(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => moveItem(index, 1)}
+                      disabled={index === playlist.length - 1}
+                      className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => updatePlaylist(playlist.filter((entry) => entry.id !== item.id))}
+                      className="p-1 text-gray-400 hover:text-red-400"
+                      title="Remove"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm text-gray-300 mb-2">
+                      Dwell Time
+                      <span className="ml-2 text-xs text-gray-400">
+                        {item.dwellSeconds >= 60
+                          ? `${Math.floor(item.dwellSeconds / 60)}m ${item.dwellSeconds % 60}s`
+                          : `${item.dwellSeconds}s`}
+                      </span>
+                    </label>
+                    <input
+                      type="range"
+                      min="5"
+                      max="900"
+                      step="5"
+                      value={item.dwellSeconds}
+                      onChange={(e) => updateItem(item.id, { dwellSeconds: parseInt(e.target.value) }, true)}
+                      className="w-full bg-gray-900"
+                    />
+                  </div>
+
+                  {definition && definition.schema.length > 0 && (
+                    <details className="text-sm">
+                      <summary className="cursor-pointer text-xs text-gray-400 hover:text-white">
+                        {definition.name} overrides
+                        {Object.keys(item.overrides).length > 0 && ` (${Object.keys(item.overrides).length})`}
+                      </summary>
+                      <div className="mt-3 space-y-4">
+                        {definition.schema.map((param) => (
+                          <PatternParamControl
+                            key={param.key}
+                            param={param}
+                            value={PatternRegistry.resolveParamValue(param, params, settings)}
+                            onChange={(value, debounce) => updateItem(item.id, {
+                              overrides: { ...item.overrides, [param.key]: value }
+                            }, debounce)}
+                          />
+                        ))}
+                        {Object.keys(item.overrides).length > 0 && (
+                          <button
+                            onClick={() => updateItem(item.id, { overrides: {} })}
+                            className="text-xs text-gray-400 hover:text-white underline"
+                          >
+                            Clear overrides
+                          </button>
+                        )}
+                      </div>
+                    </details>
+                  )}
+                </div>
+              );
+            })}
+
+            <button
+              onClick={addItem}
+              className="w-full px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-md transition-colors text-sm flex items-center justify-center space-x-1"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add Pattern</span>
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PatternPlaylistSettings;
@@ -1,133 +1,104 @@
 // src/components/collage/PhotoUploader.tsx - ENHANCED WITH REAL-TIME UPDATES
-import React, { useState, useRef } from 'react';
-import { Upload, X, Check, AlertCircle, RefreshCw, Image, FileImage } from 'lucide-react';
-import { useCollageStore } from '../../store/collageStore';
-
-type UploadStatus = 'pending' | 'uploading' | 'success' | 'error';
-
-interface FileUpload {
-  id: string;
-  file: File;
-  status: UploadStatus;
-  progress: number;
-  error?: string;
-  preview?: string;
-}
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Upload, X, Check, AlertCircle, RefreshCw, Image, FileImage, WifiOff } from 'lucide-react';
+import {
+  isHeicFile,
+  isPassthroughFile,
+  isSupportedImageFile,
+  MAX_UPLOAD_FILE_SIZE,
+  SUPPORTED_IMAGE_ACCEPT,
+  type ImageProcessingOptions
+} from '../../lib/imageProcessing';
+import { type QueuedUpload, type QueuedUploadStatus } from '../../lib/uploadQueue';
+import { useUploadQueue } from '../../hooks/useUploadQueue';
+
+// Originals are resized before upload, so they may be much larger than what gets stored
+const MAX_SOURCE_FILE_SIZE = 40 * 1024 * 1024; // 40MB
+
+const IN_PROGRESS: QueuedUploadStatus[] = ['converting', 'processing', 'uploading'];
+const UNFINISHED: QueuedUploadStatus[] = ['queued', 'retrying', 'offline', ...IN_PROGRESS];
 
 interface PhotoUploaderProps {
   collageId: string;
   onUploadComplete?: () => void;
+  // Max edge, quality and format of the stored photo and its thumbnail
+  imageProcessing?: Partial<ImageProcessingOptions>;
 }
 
-const PhotoUploader: React.FC<PhotoUploaderProps> = ({ collageId, onUploadComplete }) => {
-  const { uploadPhoto } = useCollageStore();
-  const [fileUploads, setFileUploads] = useState<FileUpload[]>([]);
-  const [isUploading, setIsUploading] = useState(false);
+// Object URLs for the queue previews: the thumbnail once there is one, else the original if the browser can show it
+const usePreviewUrls = (uploads: QueuedUpload[]) => {
+  const cacheRef = useRef(new Map<string, { blob: Blob; url: string }>());
+
+  const urls = useMemo(() => {
+    const cache = cacheRef.current;
+    const next = new Map<string, string>();
+    uploads.forEach((upload) => {
+      const blob = upload.thumbnail ?? (upload.processed || isHeicFile(upload.file) ? null : upload.file);
+      if (!blob) return;
+      const cached = cache.get(upload.id);
+      if (cached?.blob !== blob) {
+        if (cached) URL.revokeObjectURL(cached.url);
+        cache.set(upload.id, { blob, url: URL.createObjectURL(blob) });
+      }
+      next.set(upload.id, cache.get(upload.id)!.url);
+    });
+    cache.forEach((entry, id) => {
+      if (!next.has(id)) {
+        URL.revokeObjectURL(entry.url);
+        cache.delete(id);
+      }
+    });
+    return next;
+  }, [uploads]);
+
+  useEffect(() => () => {
+    cacheRef.current.forEach((entry) => URL.revokeObjectURL(entry.url));
+    cacheRef.current.clear();
+  }, []);
+
+  return urls;
+};
+
+const PhotoUploader: React.FC<PhotoUploaderProps> = ({ collageId, onUploadComplete, imageProcessing }) => {
+  const { uploads, add, retry, remove, clearCompleted, isActive } = useUploadQueue(collageId, () => onUploadComplete?.());
+  const previews = usePreviewUrls(uploads);
   const [dragActive, setDragActive] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Create file upload entries with preview generation
+  const unfinishedCount = uploads.filter(u => UNFINISHED.includes(u.status)).length;
+  const isUploading = uploads.some(u => IN_PROGRESS.includes(u.status));
+
+  // Leaving now would pause the queue until the page is opened again - make sure that's intended
+  useEffect(() => {
+    if (unfinishedCount === 0) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [unfinishedCount]);
+
+  // Validate the picked files and hand them to the upload queue
   const handleFileSelect = (files: File[]) => {
-    const validImageTypes = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
-    const maxFileSize = 10 * 1024 * 1024; // 10MB
-    
     const validFiles = files.filter(file => {
-      if (!validImageTypes.includes(file.type)) {
-        alert(`"${file.name}" is not a valid image file. Only JPEG, PNG, GIF, and WebP are supported.`);
+      if (!isSupportedImageFile(file)) {
+        alert(`"${file.name}" is not a valid image file. Only JPEG, PNG, GIF, WebP, and HEIC are supported.`);
+        return false;
+      }
+      if (file.size > MAX_SOURCE_FILE_SIZE) {
+        alert(`"${file.name}" is too large. Maximum file size is 40MB.`);
         return false;
       }
-      if (file.size > maxFileSize) {
-        alert(`"${file.name}" is too large. Maximum file size is 10MB.`);
+      if (isPassthroughFile(file) && file.size > MAX_UPLOAD_FILE_SIZE) {
+        alert(`"${file.name}" is too large. GIFs are uploaded without resizing, so they must be under 10MB.`);
         return false;
       }
       return true;
     });
 
     if (validFiles.length === 0) return;
-
-    const newUploads: FileUpload[] = validFiles.map(file => {
-      const upload = {
-        id: `${Date.now()}-${Math.random()}`,
-        file,
-        status: 'pending' as UploadStatus,
-        progress: 0,
-        preview: undefined
-      };
-
-      // Generate preview
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        setFileUploads(prev => prev.map(u => 
-          u.id === upload.id ? { ...u, preview: e.target?.result as string } : u
-        ));
-      };
-      reader.readAsDataURL(file);
-
-      return upload;
-    });
-
-    setFileUploads(prev => [...prev, ...newUploads]);
-    
-    // Start processing uploads immediately
-    processUploads(newUploads);
-  };
-
-  // Update file status
-  const updateFileStatus = (id: string, updates: Partial<FileUpload>) => {
-    setFileUploads(prev => prev.map(upload => 
-      upload.id === id ? { ...upload, ...updates } : upload
-    ));
-  };
-
-  // Process uploads with progress tracking
-  const processUploads = async (uploads: FileUpload[]) => {
-    setIsUploading(true);
-
-    // Process uploads in batches of 3 for better performance
-    const batchSize = 3;
-    for (let i = 0; i < uploads.length; i += batchSize) {
-      const batch = uploads.slice(i, i + batchSize);
-      
-      const uploadPromises = batch.map(async (upload) => {
-        try {
-          updateFileStatus(upload.id, { status: 'uploading', progress: 10 });
-
-          // Simulate progress updates
-          const progressInterval = setInterval(() => {
-            setFileUploads(prev => prev.map(u => 
-              u.id === upload.id && u.status === 'uploading'
-                ? { ...u, progress: Math.min(u.progress + 20, 90) }
-                : u
-            ));
-          }, 300);
-
-          // Upload the photo
-          await uploadPhoto(collageId, upload.file);
-          
-          clearInterval(progressInterval);
-          updateFileStatus(upload.id, { 
-            status: 'success', 
-            progress: 100 
-          });
-
-          // Call completion callback
-          onUploadComplete?.();
-
-        } catch (error: any) {
-          console.error('Upload failed:', error);
-          updateFileStatus(upload.id, { 
-            status: 'error', 
-            progress: 0,
-            error: error.message || 'Upload failed'
-          });
-        }
-      });
-
-      // Wait for current batch to complete before starting next
-      await Promise.all(uploadPromises);
-    }
-
-    setIsUploading(false);
+    add(validFiles, imageProcessing);
   };
 
   // Handle drag and drop
@@ -173,12 +144,18 @@ const PhotoUploader: React.FC<PhotoUploaderProps> = ({ collageId, onUploadComple
     fileInputRef.current?.click();
   };
 
-  const getStatusIcon = (upload: FileUpload) => {
+  const getStatusIcon = (upload: QueuedUpload) => {
     switch (upload.status) {
-      case 'pending':
+      case 'queued':
         return <FileImage className="w-4 h-4 text-gray-400" />;
+      case 'converting':
+      case 'processing':
       case 'uploading':
         return <div className="w-4 h-4 border-2 border-blue-400 border-t-transparent rounded-full animate-spin" />;
+      case 'retrying':
+        return <RefreshCw className="w-4 h-4 text-yellow-400" />;
+      case 'offline':
+        return <WifiOff className="w-4 h-4 text-yellow-400" />;
       case 'success':
         return <Check className="w-4 h-4 text-green-400" />;
       case 'error':
@@ -186,15 +163,32 @@ const PhotoUploader: React.FC<PhotoUploaderProps> = ({ collageId, onUploadComple
     }
   };
 
-  const getStatusColor = (status: UploadStatus) => {
+  const getStatusColor = (status: QueuedUploadStatus) => {
     switch (status) {
-      case 'pending': return 'bg-gray-600';
+      case 'queued': return 'bg-gray-600';
+      case 'converting': return 'bg-yellow-500';
+      case 'processing': return 'bg-purple-600';
       case 'uploading': return 'bg-blue-600';
+      case 'retrying':
+      case 'offline': return 'bg-yellow-600';
       case 'success': return 'bg-green-600';
       case 'error': return 'bg-red-600';
     }
   };
 
+  const getStatusText = (upload: QueuedUpload) => {
+    switch (upload.status) {
+      case 'queued': return 'Waiting...';
+      case 'converting': return 'Converting HEIC...';
+      case 'processing': return 'Optimizing...';
+      case 'uploading': return 'Uploading...';
+      case 'retrying': return `Connection problem - retrying (attempt ${upload.attempts + 1})`;
+      case 'offline': return "Offline - will upload when you're back online";
+      case 'success': return 'Uploaded';
+      case 'error': return 'Failed';
+    }
+  };
+
   return (
     <div className="space-y-4">
       {/* Drop Zone */}
@@ -213,7 +207,7 @@ const PhotoUploader: React.FC<PhotoUploaderProps> = ({ collageId, onUploadComple
           ref={fileInputRef}
           type="file"
           multiple
-          accept="image/*"
+          accept={SUPPORTED_IMAGE_ACCEPT}
           onChange={handleFileInputChange}
           className="hidden"
         />
@@ -233,7 +227,6 @@ const PhotoUploader: React.FC<PhotoUploaderProps> = ({ collageId, onUploadComple
             
             <button
               onClick={openFileDialog}
-              disabled={isUploading}
               className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white rounded-md transition-colors text-sm"
             >
               Choose Files
@@ -241,37 +234,44 @@ const PhotoUploader: React.FC<PhotoUploaderProps> = ({ collageId, onUploadComple
           </div>
           
           <div className="text-xs text-gray-500">
-            Supports JPEG, PNG, GIF, WebP • Max 10MB per file
+            Supports JPEG, PNG, GIF, WebP, HEIC • Max 40MB per file, resized before upload
           </div>
         </div>
       </div>
 
       {/* Upload Queue */}
-      {fileUploads.length > 0 && (
+      {uploads.length > 0 && (
         <div className="bg-gray-800 rounded-lg p-4 space-y-3">
           <div className="flex items-center justify-between">
-            <h4 className="text-white font-medium">Upload Queue ({fileUploads.length})</h4>
-            {fileUploads.some(u => u.status === 'success') && (
+            <h4 className="text-white font-medium">Upload Queue ({uploads.length})</h4>
+            {uploads.some(u => u.status === 'success') && (
               <button
-                onClick={() => setFileUploads(prev => prev.filter(u => u.status !== 'success'))}
+                onClick={clearCompleted}
                 className="text-gray-400 hover:text-white text-sm"
               >
                 Clear completed
               </button>
             )}
           </div>
+
+          {unfinishedCount > 0 && (
+            <p className="text-xs text-yellow-200 bg-yellow-900/30 border border-yellow-700/50 rounded p-2">
+              {unfinishedCount} photo{unfinishedCount === 1 ? " hasn't" : "s haven't"} reached the collage yet. Keep this page open -
+              if you leave, they continue the next time you open it.
+            </p>
+          )}
           
           <div className="space-y-2 max-h-60 overflow-y-auto">
-            {fileUploads.map((upload) => (
+            {uploads.map((upload) => (
               <div
                 key={upload.id}
                 className="flex items-center space-x-3 p-3 bg-gray-700/50 rounded-lg"
               >
                 {/* Preview */}
                 <div className="w-12 h-12 bg-gray-600 rounded-lg overflow-hidden flex-shrink-0">
-                  {upload.preview ? (
+                  {previews.get(upload.id) ? (
                     <img 
-                      src={upload.preview} 
+                      src={previews.get(upload.id)} 
                       alt="Preview" 
                       className="w-full h-full object-cover"
                     />
@@ -286,7 +286,7 @@ const PhotoUploader: React.FC<PhotoUploaderProps> = ({ collageId, onUploadComple
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center justify-between">
                     <p className="text-white text-sm font-medium truncate">
-                      {upload.file.name}
+                      {upload.name}
                     </p>
                     <div className="flex items-center space-x-2">
                       {getStatusIcon(upload)}
@@ -294,15 +294,17 @@ const PhotoUploader: React.FC<PhotoUploaderProps> = ({ collageId, onUploadComple
                   </div>
                   
                   <p className="text-gray-400 text-xs">
-                    {(upload.file.size / 1024 / 1024).toFixed(1)}MB
+                    {(upload.originalSize / 1024 / 1024).toFixed(1)}MB
+                    {upload.uploadSize !== null && ` → ${(upload.uploadSize / 1024 / 1024).toFixed(1)}MB`}
+                    {` • ${getStatusText(upload)}`}
                   </p>
 
                   {/* Progress Bar */}
-                  {upload.status === 'uploading' && (
+                  {IN_PROGRESS.includes(upload.status) && (
                     <div className="mt-2">
                       <div className="w-full bg-gray-600 rounded-full h-1.5">
                         <div 
-                          className="bg-blue-600 h-1.5 rounded-full transition-all duration-300"
+                          className={`${getStatusColor(upload.status)} h-1.5 rounded-full transition-all duration-300`}
                           style={{ width: `${upload.progress}%` }}
                         />
                       </div>
@@ -311,16 +313,28 @@ const PhotoUploader: React.FC<PhotoUploaderProps> = ({ collageId, onUploadComple
                   )}
 
                   {/* Error Message */}
-                  {upload.status === 'error' && upload.error && (
-                    <p className="text-red-400 text-xs mt-1">{upload.error}</p>
+                  {(upload.status === 'error' || upload.status === 'retrying') && upload.error && (
+                    <p className={`${upload.status === 'error' ? 'text-red-400' : 'text-yellow-400'} text-xs mt-1`}>{upload.error}</p>
                   )}
                 </div>
 
+                {/* Retry Button */}
+                {upload.status === 'error' && (
+                  <button
+                    onClick={() => retry(upload.id)}
+                    className="text-gray-400 hover:text-white p-1"
+                    title="Try again"
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                  </button>
+                )}
+
                 {/* Remove Button */}
                 <button
-                  onClick={() => setFileUploads(prev => prev.filter(u => u.id !== upload.id))}
-                  className="text-gray-400 hover:text-white p-1"
-                  title="Remove from queue"
+                  onClick={() => remove(upload.id)}
+                  disabled={isActive(upload.id)}
+                  className="text-gray-400 hover:text-white disabled:opacity-30 disabled:hover:text-gray-400 p-1"
+                  title={isActive(upload.id) ? 'Uploading - wait for it to finish' : 'Remove from queue'}
                 >
                   <X className="w-4 h-4" />
                 </button>
@@ -333,13 +347,16 @@ const PhotoUploader: React.FC<PhotoUploaderProps> = ({ collageId, onUploadComple
             <div className="flex items-center justify-between text-sm">
               <div className="flex items-center space-x-4">
                 <span className="text-gray-400">
-                  {fileUploads.filter(u => u.status === 'success').length} completed
+                  {uploads.filter(u => u.status === 'success').length} completed
+                </span>
+                <span className="text-gray-400">
+                  {uploads.filter(u => IN_PROGRESS.includes(u.status)).length} in progress
                 </span>
                 <span className="text-gray-400">
-                  {fileUploads.filter(u => u.status === 'uploading').length} uploading
+                  {uploads.filter(u => u.status === 'retrying' || u.status === 'offline').length} waiting to retry
                 </span>
                 <span className="text-gray-400">
-                  {fileUploads.filter(u => u.status === 'error').length} failed
+                  {uploads.filter(u => u.status === 'error').length} failed
                 </span>
               </div>
               
@@ -360,9 +377,10 @@ const PhotoUploader: React.FC<PhotoUploaderProps> = ({ collageId, onUploadComple
         <ul className="text-blue-200 text-sm space-y-1">
           <li>• Photos will appear in the collage instantly after upload</li>
           <li>• Best quality: Use high-resolution images (1080p or higher)</li>
-          <li>• Supported formats: JPEG, PNG, GIF, WebP</li>
-          <li>• Maximum file size: 10MB per photo</li>
+          <li>• Supported formats: JPEG, PNG, GIF, WebP, HEIC (iPhone photos are converted on your device)</li>
+          <li>• Maximum file size: 40MB per photo - large photos are shrunk on your device first</li>
           <li>• Upload multiple photos at once for faster processing</li>
+          <li>• Lost connection? Uploads wait and retry by themselves - failed ones can be retried from the queue</li>
         </ul>
       </div>
     </div>
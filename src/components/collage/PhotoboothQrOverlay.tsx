@@ -0,0 +1,89 @@
+// src/components/collage/PhotoboothQrOverlay.tsx - QR code over the live display that opens the collage's photobooth
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { type SceneSettings } from '../../store/sceneStore';
+
+const POSITION_CLASSES: Record<SceneSettings['qrOverlayPosition'], string> = {
+  'top-left': 'top-20 left-4',
+  'top-right': 'top-20 right-4',
+  'bottom-left': 'bottom-4 left-4',
+  'bottom-right': 'bottom-4 right-4',
+};
+
+// How often periodic mode checks whether it should be showing
+const PERIODIC_POLL_MS = 500;
+
+const localSeconds = () => performance.now() / 1000;
+
+export const getPhotoboothUrl = (code: string) => `${window.location.origin}/photobooth/${code}`;
+
+const PhotoboothQrOverlay: React.FC<{
+  code: string;
+  settings: SceneSettings;
+  // Shared clock, so synced screens show and hide the code together
+  clock?: () => number;
+}> = ({ code, settings, clock = localSeconds }) => {
+  const [dataUrl, setDataUrl] = useState<string | null>(null);
+  const [periodicVisible, setPeriodicVisible] = useState(true);
+
+  const size = settings.qrOverlaySize ?? 160;
+  const periodic = (settings.qrOverlayMode ?? 'always') === 'periodic';
+  const showSeconds = Math.max(1, settings.qrOverlayShowSeconds ?? 15);
+  const hideSeconds = Math.max(0, settings.qrOverlayHideSeconds ?? 45);
+
+  // Encoded in the browser - the URL never leaves the page
+  useEffect(() => {
+    let cancelled = false;
+    QRCode.toDataURL(getPhotoboothUrl(code), {
+      errorCorrectionLevel: 'M',
+      margin: 1,
+      width: Math.round(size * (window.devicePixelRatio || 1))
+    })
+      .then((url) => {
+        if (!cancelled) setDataUrl(url);
+      })
+      .catch((error) => {
+        console.error('❌ QR code generation failed:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [code, size]);
+
+  useEffect(() => {
+    if (!periodic) {
+      setPeriodicVisible(true);
+      return;
+    }
+
+    const update = () => {
+      setPeriodicVisible(clock() % (showSeconds + hideSeconds) < showSeconds);
+    };
+    update();
+    const interval = setInterval(update, PERIODIC_POLL_MS);
+    return () => clearInterval(interval);
+  }, [periodic, showSeconds, hideSeconds, clock]);
+
+  if (!dataUrl) return null;
+
+  const position = POSITION_CLASSES[settings.qrOverlayPosition] || POSITION_CLASSES['bottom-right'];
+  const caption = settings.qrOverlayCaption ?? 'Scan to add your photo';
+
+  return (
+    <div
+      className={`absolute ${position} z-10 pointer-events-none transition-opacity duration-700 ${periodicVisible ? 'opacity-100' : 'opacity-0'}`}
+    >
+      <div className="bg-white rounded-lg p-2 shadow-lg text-center" style={{ width: size + 16 }}>
+        <img src={dataUrl} alt="Scan to open the photobooth" width={size} height={size} className="block" />
+        {caption && (
+          <div className="mt-1 text-sm font-semibold text-gray-900 leading-tight">
+            {caption}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PhotoboothQrOverlay;
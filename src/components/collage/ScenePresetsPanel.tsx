@@ -0,0 +1,167 @@
+// src/components/collage/ScenePresetsPanel.tsx - Save the current look as a preset and apply saved or built-in ones
+import React, { useEffect, useState } from 'react';
+import { Bookmark, Check, Loader2, Sparkles, Trash2 } from 'lucide-react';
+import { useCollageStore, type ScenePreset } from '../../store/collageStore';
+import { type SceneSettings } from '../../store/sceneStore';
+import { BUILT_IN_SCENE_PRESETS, type BuiltInScenePreset } from '../../lib/scenePresets';
+
+const MAX_NAME_LENGTH = 80;
+
+const ScenePresetsPanel: React.FC<{
+  settings: SceneSettings;
+  onApply: (settings: Partial<SceneSettings>) => void;
+  // Grabs the current frame of the scene for the preset's picture
+  captureThumbnail: () => Promise<Blob | null>;
+}> = ({ settings, onApply, captureThumbnail }) => {
+  const { scenePresets, fetchScenePresets, saveScenePreset, deleteScenePreset } = useCollageStore();
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [appliedId, setAppliedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchScenePresets().catch(() => setError('Could not load your presets'));
+  }, [fetchScenePresets]);
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const thumbnail = await captureThumbnail().catch(() => null);
+      await saveScenePreset(trimmed, settings, thumbnail);
+      setName('');
+    } catch (err: any) {
+      setError(err.message || 'Failed to save preset');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleApply = (preset: ScenePreset | BuiltInScenePreset) => {
+    onApply(preset.settings);
+    setAppliedId(preset.id);
+    setTimeout(() => setAppliedId((id) => (id === preset.id ? null : id)), 2000);
+  };
+
+  const handleDelete = async (preset: ScenePreset) => {
+    if (!window.confirm(`Delete the preset "${preset.name}"?`)) return;
+    try {
+      await deleteScenePreset(preset.id);
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete preset');
+    }
+  };
+
+  const applyButton = (preset: ScenePreset | BuiltInScenePreset) => (
+    <button
+      onClick={() => handleApply(preset)}
+      className="px-2 py-1 bg-purple-600 hover:bg-purple-700 text-white rounded text-xs flex items-center space-x-1 transition-colors"
+    >
+      {appliedId === preset.id ? <Check className="w-3 h-3" /> : null}
+      <span>{appliedId === preset.id ? 'Applied' : 'Apply'}</span>
+    </button>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Save current look */}
+      <div>
+        <h4 className="flex items-center text-sm font-medium text-gray-200 mb-3">
+          <Bookmark className="h-4 w-4 mr-2" />
+          Save Current Look
+        </h4>
+        <div className="flex space-x-2">
+          <input
+            type="text"
+            value={name}
+            maxLength={MAX_NAME_LENGTH}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSave();
+            }}
+            placeholder="Preset name"
+            className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white text-sm"
+          />
+          <button
+            onClick={handleSave}
+            disabled={saving || !name.trim()}
+            className="px-3 py-1 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white rounded text-sm flex items-center transition-colors"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save'}
+          </button>
+        </div>
+        <p className="mt-1 text-xs text-gray-400">
+          Presets are shared across all of your collages. The scene preview is saved as the picture.
+        </p>
+        {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+      </div>
+
+      {/* Saved presets */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-200 mb-3">My Presets</h4>
+        {scenePresets.length === 0 ? (
+          <p className="text-xs text-gray-400">No saved presets yet.</p>
+        ) : (
+          <div className="grid grid-cols-2 gap-2">
+            {scenePresets.map((preset) => (
+              <div key={preset.id} className="bg-gray-800 rounded-lg overflow-hidden border border-gray-700">
+                {preset.thumbnail_url ? (
+                  <img src={preset.thumbnail_url} alt={preset.name} loading="lazy" className="w-full aspect-video object-cover" />
+                ) : (
+                  <div
+                    className="w-full aspect-video"
+                    style={{ background: `linear-gradient(${preset.settings.backgroundGradientAngle}deg, ${preset.settings.backgroundGradientStart}, ${preset.settings.backgroundGradientEnd})` }}
+                  />
+                )}
+                <div className="p-2 space-y-1">
+                  <div className="text-xs text-white truncate" title={preset.name}>{preset.name}</div>
+                  <div className="flex items-center justify-between">
+                    {applyButton(preset)}
+                    <button
+                      onClick={() => handleDelete(preset)}
+                      className="p-1 text-gray-400 hover:text-red-400 transition-colors"
+                      title="Delete preset"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Built-in presets */}
+      <div>
+        <h4 className="flex items-center text-sm font-medium text-gray-200 mb-3">
+          <Sparkles className="h-4 w-4 mr-2" />
+          Built-in Looks
+        </h4>
+        <div className="space-y-2">
+          {BUILT_IN_SCENE_PRESETS.map((preset) => (
+            <div key={preset.id} className="flex items-center bg-gray-800 rounded-lg border border-gray-700 p-2 space-x-2">
+              <div
+                className="w-10 h-10 rounded flex-shrink-0 border border-gray-600"
+                style={{ background: `linear-gradient(135deg, ${preset.settings.spotlightColor}, ${preset.settings.backgroundGradientStart})` }}
+              />
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-white">{preset.name}</div>
+                <div className="text-xs text-gray-400 truncate">{preset.description}</div>
+              </div>
+              {applyButton(preset)}
+            </div>
+          ))}
+        </div>
+        <p className="mt-2 text-xs text-gray-400">
+          Built-in looks only change pattern, lighting, background and floor. Undo reverts any preset.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ScenePresetsPanel;
@@ -1,15 +1,84 @@
 // src/components/collage/SceneSettings.tsx - COMPLETE: Improved photo spacing control
 import React from 'react';
-import { type SceneSettings } from '../../store/sceneStore';
-import { Grid, Palette, CameraIcon, ImageIcon, Square, Sun, Lightbulb, RotateCw, Move, Eye } from 'lucide-react';
+import { type SceneSettings, type PatternParamValue, MAX_PHOTO_COUNT } from '../../store/sceneStore';
+import { PatternFactory } from '../three/patterns/PatternFactory';
+import { PatternRegistry } from '../three/patterns/PatternRegistry';
+import PatternParamControl from './PatternParamControl';
+import PatternPlaylistSettings from './PatternPlaylistSettings';
+import CameraTourSettings from './CameraTourSettings';
+import { Grid, Palette, CameraIcon, ImageIcon, Square, Sun, Lightbulb, RotateCw, Move, Eye, Shapes, Sparkles, MonitorSmartphone, QrCode, Undo2, Redo2 } from 'lucide-react';
 
 const SceneSettings: React.FC<{
   settings: SceneSettings;
   onSettingsChange: (settings: Partial<SceneSettings>, debounce?: boolean) => void;
   onReset: () => void;
-}> = ({ settings, onSettingsChange, onReset }) => {
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+}> = ({ settings, onSettingsChange, onReset, onUndo, onRedo, canUndo = false, canRedo = false }) => {
+  const patternDefinitions = PatternFactory.getPatterns();
+  const activePattern = PatternFactory.getPattern(settings.animationPattern);
+  const activePatternParams = PatternRegistry.resolveParams(settings.animationPattern, settings);
+
+  const handlePatternParamChange = (key: string, value: PatternParamValue, debounce?: boolean) => {
+    onSettingsChange({
+      patterns: {
+        ...settings.patterns,
+        [settings.animationPattern]: { ...activePatternParams, [key]: value }
+      }
+    }, debounce);
+  };
+
+  const gridParams = PatternRegistry.resolveParams('grid', settings);
+  const gridWall = {
+    wallHeight: Number(gridParams.wallHeight ?? settings.wallHeight),
+    spacing: Number(gridParams.spacing ?? settings.photoSpacing),
+    aspectRatio: Number(gridParams.aspectRatio ?? settings.gridAspectRatio)
+  };
+
+  // Grid Wall controls update the top-level wall settings (still read by lighting and older collages)
+  // together with the grid pattern's own block so both stay in sync
+  const handleGridWallChange = (
+    updates: Partial<SceneSettings>,
+    changedParams: Record<string, PatternParamValue>,
+    debounce?: boolean
+  ) => {
+    onSettingsChange({
+      ...updates,
+      patterns: {
+        ...settings.patterns,
+        grid: { ...gridParams, ...changedParams }
+      }
+    }, debounce);
+  };
+
   return (
     <div className="space-y-6">
+      {/* History */}
+      {(onUndo || onRedo) && (
+        <div className="flex space-x-2">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            title="Undo (Ctrl+Z)"
+            className="flex-1 px-3 py-1.5 bg-gray-800 hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-gray-800 text-gray-300 rounded text-xs flex items-center justify-center space-x-1 transition-colors"
+          >
+            <Undo2 className="w-3 h-3" />
+            <span>Undo</span>
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            title="Redo (Ctrl+Shift+Z)"
+            className="flex-1 px-3 py-1.5 bg-gray-800 hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-gray-800 text-gray-300 rounded text-xs flex items-center justify-center space-x-1 transition-colors"
+          >
+            <Redo2 className="w-3 h-3" />
+            <span>Redo</span>
+          </button>
+        </div>
+      )}
+
       {/* Animation Controls */}
       <div>
         <h4 className="flex items-center text-sm font-medium text-gray-200 mb-3">
@@ -39,16 +108,73 @@ const SceneSettings: React.FC<{
             <select
               value={settings.animationPattern}
               onChange={(e) => onSettingsChange({ 
-                animationPattern: e.target.value as 'float' | 'wave' | 'spiral' | 'grid' 
+                animationPattern: e.target.value 
               })}
               className="w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-3 text-white"
             >
-              <option value="grid">Grid Wall</option>
-              <option value="float">Float</option>
-              <option value="wave">Wave</option>
-              <option value="spiral">Spiral</option>
+              {patternDefinitions.map((pattern) => (
+                <option key={pattern.id} value={pattern.id}>{pattern.name}</option>
+              ))}
             </select>
           </div>
+
+          <div>
+            <label className="block text-sm text-gray-300 mb-2">
+              Pattern Transition
+              <span className="ml-2 text-xs text-gray-400">
+                {(settings.patternTransitionDuration ?? 2) === 0 ? 'Instant' : `${(settings.patternTransitionDuration ?? 2).toFixed(1)}s`}
+              </span>
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="6"
+              step="0.25"
+              value={settings.patternTransitionDuration ?? 2}
+              onChange={(e) => onSettingsChange({ 
+                patternTransitionDuration: parseFloat(e.target.value) 
+              }, true)}
+              className="w-full bg-gray-800"
+            />
+            <p className="mt-1 text-xs text-gray-400">
+              How long photos take to morph into a newly selected pattern
+            </p>
+          </div>
+
+          {(settings.patternTransitionDuration ?? 2) > 0 && (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Easing</label>
+                <select
+                  value={settings.patternTransitionEasing || 'easeInOut'}
+                  onChange={(e) => onSettingsChange({ 
+                    patternTransitionEasing: e.target.value as SceneSettings['patternTransitionEasing'] 
+                  })}
+                  className="w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-2 text-white text-sm"
+                >
+                  <option value="easeInOut">Smooth</option>
+                  <option value="easeOut">Decelerate</option>
+                  <option value="easeOutBack">Overshoot</option>
+                  <option value="linear">Linear</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Stagger</label>
+                <select
+                  value={settings.patternTransitionStagger || 'none'}
+                  onChange={(e) => onSettingsChange({ 
+                    patternTransitionStagger: e.target.value as SceneSettings['patternTransitionStagger'] 
+                  })}
+                  className="w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-2 text-white text-sm"
+                >
+                  <option value="none">All Together</option>
+                  <option value="ripple">Ripple From Center</option>
+                  <option value="rows">Row Sweep</option>
+                  <option value="random">Scatter</option>
+                </select>
+              </div>
+            </div>
+          )}
           
           {settings.animationEnabled && (
             <div>
@@ -90,7 +216,7 @@ const SceneSettings: React.FC<{
             <input
               type="range"
               min="1"
-              max="500"
+              max={MAX_PHOTO_COUNT}
               step="1"
               value={settings.photoCount}
               onChange={(e) => onSettingsChange({ 
@@ -103,6 +229,59 @@ const SceneSettings: React.FC<{
             </p>
           </div>
 
+          <div>
+            <label className="block text-sm text-gray-300 mb-2">
+              Rendering
+            </label>
+            <select
+              value={settings.photoRenderMode || 'auto'}
+              onChange={(e) => onSettingsChange({
+                photoRenderMode: e.target.value as SceneSettings['photoRenderMode']
+              })}
+              className="w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-3 text-white"
+            >
+              <option value="auto">Auto</option>
+              <option value="standard">Standard (full resolution)</option>
+              <option value="instanced">Instanced (large collages)</option>
+            </select>
+            <p className="mt-1 text-xs text-gray-400">
+              Instanced rendering draws thousands of photos at thumbnail resolution. Auto uses it from 200 photos.
+            </p>
+          </div>
+
+          <div>
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                checked={settings.adaptiveQuality ?? true}
+                onChange={(e) => onSettingsChange({ 
+                  adaptiveQuality: e.target.checked 
+                })}
+                className="mr-2 bg-gray-800 border-gray-700"
+              />
+              <label className="text-sm text-gray-300">
+                Adaptive Quality
+              </label>
+            </div>
+            <p className="mt-1 text-xs text-gray-400">
+              Lowers resolution, spotlights, floor reflections and texture detail when the frame rate drops, and restores them when it recovers
+            </p>
+          </div>
+
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              checked={settings.showDiagnostics ?? false}
+              onChange={(e) => onSettingsChange({ 
+                showDiagnostics: e.target.checked 
+              })}
+              className="mr-2 bg-gray-800 border-gray-700"
+            />
+            <label className="text-sm text-gray-300">
+              Show Diagnostics Overlay <span className="text-xs text-gray-500">(Shift+D)</span>
+            </label>
+          </div>
+
           <div>
             <label className="block text-sm text-gray-300 mb-2">
               Photo Size
@@ -173,17 +352,18 @@ const SceneSettings: React.FC<{
             <div>
               <label className="block text-sm text-gray-300 mb-2">
                 Wall Height
-                <span className="ml-2 text-xs text-gray-400">{settings.wallHeight.toFixed(1)} units</span>
+                <span className="ml-2 text-xs text-gray-400">{gridWall.wallHeight.toFixed(1)} units</span>
               </label>
               <input
                 type="range"
                 min="0"
                 max="30"
                 step="0.5"
-                value={settings.wallHeight}
-                onChange={(e) => onSettingsChange({ 
-                  wallHeight: parseFloat(e.target.value) 
-                }, true)}
+                value={gridWall.wallHeight}
+                onChange={(e) => {
+                  const wallHeight = parseFloat(e.target.value);
+                  handleGridWallChange({ wallHeight }, { wallHeight }, true);
+                }}
                 className="w-full bg-gray-800"
               />
               <p className="mt-1 text-xs text-gray-400">
@@ -195,7 +375,7 @@ const SceneSettings: React.FC<{
               <label className="block text-sm text-gray-300 mb-2">
                 Photo Spacing
                 <span className="ml-2 text-xs text-gray-400">
-                  {settings.photoSpacing === 0 ? 'Solid Wall' : `${(settings.photoSpacing * 200).toFixed(0)}% gaps`}
+                  {gridWall.spacing === 0 ? 'Solid Wall' : `${(gridWall.spacing * 200).toFixed(0)}% gaps`}
                 </span>
               </label>
               <input
@@ -203,16 +383,17 @@ const SceneSettings: React.FC<{
                 min="0"
                 max="1"
                 step="0.01"
-                value={settings.photoSpacing}
-                onChange={(e) => onSettingsChange({ 
-                  photoSpacing: parseFloat(e.target.value) 
-                }, true)}
+                value={gridWall.spacing}
+                onChange={(e) => {
+                  const photoSpacing = parseFloat(e.target.value);
+                  handleGridWallChange({ photoSpacing }, { spacing: photoSpacing }, true);
+                }}
                 className="w-full bg-gray-800"
               />
               <p className="mt-1 text-xs text-gray-400">
-                {settings.photoSpacing === 0 
+                {gridWall.spacing === 0 
                   ? '🧱 Edge-to-edge solid wall (no gaps)'
-                  : settings.photoSpacing < 0.5
+                  : gridWall.spacing < 0.5
                   ? '📐 Small gaps between photos'
                   : '🎯 Large gaps between photos'
                 }
@@ -227,7 +408,7 @@ const SceneSettings: React.FC<{
                 value={settings.gridAspectRatioPreset}
                 onChange={(e) => {
                   const preset = e.target.value as SceneSettings['gridAspectRatioPreset'];
-                  let ratio = settings.gridAspectRatio;
+                  let ratio = gridWall.aspectRatio;
                   
                   switch (preset) {
                     case '1:1': ratio = 1; break;
@@ -237,10 +418,10 @@ const SceneSettings: React.FC<{
                     case 'custom': break;
                   }
                   
-                  onSettingsChange({
+                  handleGridWallChange({
                     gridAspectRatioPreset: preset,
                     gridAspectRatio: ratio
-                  });
+                  }, { aspectRatio: ratio });
                 }}
                 className="w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-3 text-white"
               >
@@ -256,17 +437,18 @@ const SceneSettings: React.FC<{
               <div>
                 <label className="block text-sm text-gray-300 mb-2">
                   Custom Aspect Ratio
-                  <span className="ml-2 text-xs text-gray-400">{settings.gridAspectRatio.toFixed(2)}</span>
+                  <span className="ml-2 text-xs text-gray-400">{gridWall.aspectRatio.toFixed(2)}</span>
                 </label>
                 <input
                   type="range"
                   min="0.5"
                   max="3"
                   step="0.1"
-                  value={settings.gridAspectRatio}
-                  onChange={(e) => onSettingsChange({ 
-                    gridAspectRatio: parseFloat(e.target.value) 
-                  })}
+                  value={gridWall.aspectRatio}
+                  onChange={(e) => {
+                    const gridAspectRatio = parseFloat(e.target.value);
+                    handleGridWallChange({ gridAspectRatio }, { aspectRatio: gridAspectRatio });
+                  }}
                   className="w-full bg-gray-800"
                 />
               </div>
@@ -275,6 +457,30 @@ const SceneSettings: React.FC<{
         </div>
       )}
 
+      {/* Pattern Settings - Built from the active pattern's registered parameter schema */}
+      {activePattern && activePattern.schema.length > 0 && (
+        <div>
+          <h4 className="flex items-center text-sm font-medium text-gray-200 mb-3">
+            <Shapes className="h-4 w-4 mr-2" />
+            {activePattern.name} Settings
+          </h4>
+          
+          <div className="space-y-4">
+            {activePattern.schema.map((param) => (
+              <PatternParamControl
+                key={param.key}
+                param={param}
+                value={PatternRegistry.resolveParamValue(param, activePatternParams, settings)}
+                onChange={(value, debounce) => handlePatternParamChange(param.key, value, debounce)}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Pattern Playlist */}
+      <PatternPlaylistSettings settings={settings} onSettingsChange={onSettingsChange} />
+
       {/* Photo Rotation */}
       <div>
         <h4 className="flex items-center text-sm font-medium text-gray-200 mb-3">
@@ -404,6 +610,207 @@ const SceneSettings: React.FC<{
         </div>
       </div>
 
+      {/* New Photo Spotlight */}
+      <div>
+        <h4 className="flex items-center text-sm font-medium text-gray-200 mb-3">
+          <Sparkles className="h-4 w-4 mr-2" />
+          New Photo Spotlight
+        </h4>
+
+        <div className="space-y-4">
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              checked={settings.newPhotoFocusEnabled ?? true}
+              onChange={(e) => onSettingsChange({ 
+                newPhotoFocusEnabled: e.target.checked 
+              })}
+              className="mr-2 bg-gray-800 border-gray-700"
+            />
+            <label className="text-sm text-gray-300">
+              Fly to new uploads on the live display
+            </label>
+          </div>
+
+          {(settings.newPhotoFocusEnabled ?? true) && (
+            <div>
+              <label className="block text-sm text-gray-300 mb-2">
+                Spotlight Duration
+                <span className="ml-2 text-xs text-gray-400">{settings.newPhotoFocusSeconds ?? 5}s</span>
+              </label>
+              <input
+                type="range"
+                min="2"
+                max="15"
+                step="1"
+                value={settings.newPhotoFocusSeconds ?? 5}
+                onChange={(e) => onSettingsChange({ 
+                  newPhotoFocusSeconds: parseFloat(e.target.value) 
+                }, true)}
+                className="w-full bg-gray-800"
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Multiple Screens */}
+      <div>
+        <h4 className="flex items-center text-sm font-medium text-gray-200 mb-3">
+          <MonitorSmartphone className="h-4 w-4 mr-2" />
+          Multiple Screens
+        </h4>
+
+        <div className="space-y-2">
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              checked={settings.playbackSyncEnabled ?? false}
+              onChange={(e) => onSettingsChange({ 
+                playbackSyncEnabled: e.target.checked 
+              })}
+              className="mr-2 bg-gray-800 border-gray-700"
+            />
+            <label className="text-sm text-gray-300">
+              Sync playback across screens
+            </label>
+          </div>
+          <p className="text-xs text-gray-400">
+            Every display of this collage follows the first one opened, so patterns, camera tours and new photo spotlights line up side by side. Camera dragging is turned off on synced displays. Video wall screens always sync.
+          </p>
+        </div>
+      </div>
+
+      {/* Photobooth QR Code */}
+      <div>
+        <h4 className="flex items-center text-sm font-medium text-gray-200 mb-3">
+          <QrCode className="h-4 w-4 mr-2" />
+          Photobooth QR Code
+        </h4>
+
+        <div className="space-y-4">
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              checked={settings.qrOverlayEnabled ?? false}
+              onChange={(e) => onSettingsChange({ 
+                qrOverlayEnabled: e.target.checked 
+              })}
+              className="mr-2 bg-gray-800 border-gray-700"
+            />
+            <label className="text-sm text-gray-300">
+              Show on the live display
+            </label>
+          </div>
+
+          {settings.qrOverlayEnabled && (
+            <>
+              <div>
+                <label className="block text-sm text-gray-300 mb-2">Caption</label>
+                <input
+                  type="text"
+                  value={settings.qrOverlayCaption ?? ''}
+                  maxLength={60}
+                  onChange={(e) => onSettingsChange({ 
+                    qrOverlayCaption: e.target.value 
+                  }, true)}
+                  className="w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-3 text-white text-sm"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm text-gray-300 mb-2">Position</label>
+                <select
+                  value={settings.qrOverlayPosition ?? 'bottom-right'}
+                  onChange={(e) => onSettingsChange({ 
+                    qrOverlayPosition: e.target.value as SceneSettings['qrOverlayPosition'] 
+                  })}
+                  className="w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-3 text-white"
+                >
+                  <option value="top-left">Top Left</option>
+                  <option value="top-right">Top Right</option>
+                  <option value="bottom-left">Bottom Left</option>
+                  <option value="bottom-right">Bottom Right</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm text-gray-300 mb-2">
+                  Size
+                  <span className="ml-2 text-xs text-gray-400">{settings.qrOverlaySize ?? 160}px</span>
+                </label>
+                <input
+                  type="range"
+                  min="96"
+                  max="320"
+                  step="8"
+                  value={settings.qrOverlaySize ?? 160}
+                  onChange={(e) => onSettingsChange({ 
+                    qrOverlaySize: parseFloat(e.target.value) 
+                  }, true)}
+                  className="w-full bg-gray-800"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm text-gray-300 mb-2">Display</label>
+                <select
+                  value={settings.qrOverlayMode ?? 'always'}
+                  onChange={(e) => onSettingsChange({ 
+                    qrOverlayMode: e.target.value as SceneSettings['qrOverlayMode'] 
+                  })}
+                  className="w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-3 text-white"
+                >
+                  <option value="always">Always</option>
+                  <option value="periodic">Periodically</option>
+                </select>
+              </div>
+
+              {settings.qrOverlayMode === 'periodic' && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs text-gray-300 mb-1">
+                      Show for
+                      <span className="ml-2 text-gray-400">{settings.qrOverlayShowSeconds ?? 15}s</span>
+                    </label>
+                    <input
+                      type="range"
+                      min="5"
+                      max="120"
+                      step="5"
+                      value={settings.qrOverlayShowSeconds ?? 15}
+                      onChange={(e) => onSettingsChange({ 
+                        qrOverlayShowSeconds: parseFloat(e.target.value) 
+                      }, true)}
+                      className="w-full bg-gray-800"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-300 mb-1">
+                      Hide for
+                      <span className="ml-2 text-gray-400">{settings.qrOverlayHideSeconds ?? 45}s</span>
+                    </label>
+                    <input
+                      type="range"
+                      min="5"
+                      max="300"
+                      step="5"
+                      value={settings.qrOverlayHideSeconds ?? 45}
+                      onChange={(e) => onSettingsChange({ 
+                        qrOverlayHideSeconds: parseFloat(e.target.value) 
+                      }, true)}
+                      className="w-full bg-gray-800"
+                    />
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      <CameraTourSettings settings={settings} onSettingsChange={onSettingsChange} />
+
       {/* Lighting Settings */}
       <div>
         <h4 className="flex items-center text-sm font-medium text-gray-200 mb-3">
@@ -0,0 +1,99 @@
+// src/components/three/CameraTour.tsx - Samples a looping keyframe camera tour, plus the bridge the editor uses to record views
+import * as THREE from 'three';
+import { type CameraKeyframe } from '../../store/sceneStore';
+import { TRANSITION_EASINGS } from './patterns/PatternTransition';
+
+export type CameraView = {
+  position: [number, number, number];
+  target: [number, number, number];
+  fov: number;
+};
+
+export const lerpCameraView = (from: CameraView, to: CameraView, t: number): CameraView => ({
+  position: new THREE.Vector3(...from.position).lerp(new THREE.Vector3(...to.position), t).toArray() as [number, number, number],
+  target: new THREE.Vector3(...from.target).lerp(new THREE.Vector3(...to.target), t).toArray() as [number, number, number],
+  fov: THREE.MathUtils.lerp(from.fov, to.fov, t)
+});
+
+// Keeps a zero-length segment from dividing by zero
+const MIN_SEGMENT_SECONDS = 0.01;
+
+export const getTourDuration = (keyframes: CameraKeyframe[]): number =>
+  keyframes.reduce((total, keyframe) => total + Math.max(0, keyframe.travelSeconds) + Math.max(0, keyframe.holdSeconds), 0);
+
+// Camera view at a point in the loop. Each keyframe's travel time is the flight from the previous
+// keyframe (the first one flies in from the last), followed by its hold.
+export const sampleCameraTour = (keyframes: CameraKeyframe[], time: number, curve?: THREE.CatmullRomCurve3): CameraView | null => {
+  if (keyframes.length === 0) return null;
+  if (keyframes.length === 1) {
+    const { position, target, fov } = keyframes[0];
+    return { position, target, fov };
+  }
+
+  const duration = getTourDuration(keyframes);
+  let remaining = duration > 0 ? ((time % duration) + duration) % duration : 0;
+
+  for (let i = 0; i < keyframes.length; i++) {
+    const keyframe = keyframes[i];
+    const previous = keyframes[(i - 1 + keyframes.length) % keyframes.length];
+    const travel = Math.max(0, keyframe.travelSeconds);
+
+    if (remaining < travel) {
+      const easing = TRANSITION_EASINGS[keyframe.easing] || TRANSITION_EASINGS.easeInOut;
+      const progress = easing(remaining / Math.max(travel, MIN_SEGMENT_SECONDS));
+
+      // Positions follow a closed spline through every keyframe so the camera glides instead of zig-zagging
+      const previousIndex = (i - 1 + keyframes.length) % keyframes.length;
+      const position = curve
+        ? curve.getPoint(((previousIndex + progress) / keyframes.length) % 1)
+        : new THREE.Vector3(...previous.position).lerp(new THREE.Vector3(...keyframe.position), progress);
+      const target = new THREE.Vector3(...previous.target).lerp(new THREE.Vector3(...keyframe.target), progress);
+
+      return {
+        position: position.toArray() as [number, number, number],
+        target: target.toArray() as [number, number, number],
+        fov: THREE.MathUtils.lerp(previous.fov, keyframe.fov, progress)
+      };
+    }
+    remaining -= travel;
+
+    if (remaining < Math.max(0, keyframe.holdSeconds) || i === keyframes.length - 1) {
+      const { position, target, fov } = keyframe;
+      return { position, target, fov };
+    }
+    remaining -= Math.max(0, keyframe.holdSeconds);
+  }
+
+  return null;
+};
+
+export const createTourCurve = (keyframes: CameraKeyframe[]): THREE.CatmullRomCurve3 | undefined => {
+  if (keyframes.length < 3) return undefined;
+  return new THREE.CatmullRomCurve3(
+    keyframes.map((keyframe) => new THREE.Vector3(...keyframe.position)),
+    true,
+    'centripetal'
+  );
+};
+
+// The camera lives inside the canvas while the timeline editor lives in the settings panel.
+// CameraController registers these handlers so the editor can record and preview views.
+type LiveCameraHandlers = {
+  capture: () => CameraView;
+  moveTo: (view: CameraView) => void;
+};
+
+let liveCamera: LiveCameraHandlers | null = null;
+
+export const registerLiveCamera = (handlers: LiveCameraHandlers) => {
+  liveCamera = handlers;
+  return () => {
+    if (liveCamera === handlers) liveCamera = null;
+  };
+};
+
+export const captureLiveCamera = (): CameraView | null => liveCamera?.capture() ?? null;
+
+export const moveLiveCamera = (view: CameraView) => {
+  liveCamera?.moveTo(view);
+};
@@ -4,12 +4,23 @@ import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { OrbitControls, PerspectiveCamera } from '@react-three/drei';
 import * as THREE from 'three';
 import { type SceneSettings } from '../../store/sceneStore';
+import InstancedPhotoRenderer, { createEmptySlotTexture } from './InstancedPhotoRenderer';
+import QualityGovernor, { QUALITY_LEVELS, type FrameStats } from './QualityGovernor';
+import DiagnosticsOverlay from './DiagnosticsOverlay';
+import NewPhotoSpotlight, { type CameraOverride } from './NewPhotoSpotlight';
+import VideoWallViewport from './VideoWallViewport';
+import { createTourCurve, lerpCameraView, registerLiveCamera, sampleCameraTour, type CameraView } from './CameraTour';
 import { PatternFactory } from './patterns/PatternFactory';
+import { PatternTransition, TRANSITION_EASINGS } from './patterns/PatternTransition';
+import { type PatternState } from './patterns/BasePattern';
 import { addCacheBustToUrl } from '../../lib/supabase';
+import { type VideoWallConfig } from '../../lib/videoWall';
+import { usePhotoTexture } from '../../hooks/usePhotoTexture';
 
 type Photo = {
   id: string;
   url: string;
+  thumbnail_url?: string | null;
   collage_id?: string;
   created_at?: string;
 };
@@ -18,6 +29,17 @@ type CollageSceneProps = {
   photos: Photo[];
   settings: SceneSettings;
   onSettingsChange?: (settings: Partial<SceneSettings>, debounce?: boolean) => void;
+  // Newly uploaded photo to fly the camera to; reported back through onFocusComplete when done
+  focusPhotoId?: string | null;
+  focusStartAt?: number | null; // clock time the spotlight begins, when screens are synced
+  onFocusComplete?: (photoId: string) => void;
+  // Shared clock in seconds; when set, pattern, rotation and tour time follow it instead of this tab's frame clock
+  clock?: () => number;
+  // Renders one tile of a multi-screen wall
+  videoWall?: VideoWallConfig | null;
+  // Live display overrides from the remote control: freeze the pattern where it is, hold the camera on a view
+  paused?: boolean;
+  cameraPreset?: CameraView | null;
 };
 
 type PhotoWithPosition = Photo & {
@@ -31,6 +53,13 @@ type PhotoWithPosition = Photo & {
 const POSITION_SMOOTHING = 0.1;
 const ROTATION_SMOOTHING = 0.1;
 const TELEPORT_THRESHOLD = 30;
+// Photos switch to their full-resolution texture above this on-screen height, and back below the exit height
+const FULL_RES_ENTER_PIXELS = 320;
+const FULL_RES_EXIT_PIXELS = 256;
+const FULL_RES_CHECK_INTERVAL = 30; // frames
+// 'auto' render mode switches to instanced meshes at this many slots
+const INSTANCED_RENDER_THRESHOLD = 200;
+const CAMERA_PRESET_FLY_SECONDS = 2;
 
 // ENHANCED: Stable slot assignment system that preserves slots during uploads
 class SlotManager {
@@ -107,7 +136,7 @@ class SlotManager {
 }
 
 // Floor component - FIXED to use all settings properly  
-const Floor: React.FC<{ settings: SceneSettings }> = ({ settings }) => {
+const Floor: React.FC<{ settings: SceneSettings; reflections?: boolean }> = ({ settings, reflections = true }) => {
   if (!settings.floorEnabled) return null;
 
   const floorMaterial = useMemo(() => {
@@ -122,12 +151,13 @@ const Floor: React.FC<{ settings: SceneSettings }> = ({ settings }) => {
       color: settings.floorColor || '#1A1A1A',
       transparent: (settings.floorOpacity || 1) < 1,
       opacity: settings.floorOpacity || 1,
-      metalness: Math.min(settings.floorMetalness || 0.5, 0.9),
-      roughness: Math.max(settings.floorRoughness || 0.5, 0.1),
+      // Reflections are dropped by the quality governor on slow machines
+      metalness: reflections ? Math.min(settings.floorMetalness || 0.5, 0.9) : 0,
+      roughness: reflections ? Math.max(settings.floorRoughness || 0.5, 0.1) : 1,
       side: THREE.DoubleSide,
-      envMapIntensity: 0.5,
+      envMapIntensity: reflections ? 0.5 : 0,
     });
-  }, [settings.floorColor, settings.floorOpacity, settings.floorMetalness, settings.floorRoughness]);
+  }, [settings.floorColor, settings.floorOpacity, settings.floorMetalness, settings.floorRoughness, reflections]);
 
   return (
     <mesh
@@ -176,11 +206,62 @@ const Grid: React.FC<{ settings: SceneSettings }> = ({ settings }) => {
 };
 
 // CameraController component with FIXED controls
-const CameraController: React.FC<{ settings: SceneSettings }> = ({ settings }) => {
+const CameraController: React.FC<{
+  settings: SceneSettings;
+  overrideRef: React.MutableRefObject<CameraOverride | null>;
+  overrideActive: boolean;
+  clock?: () => number;
+  preset?: CameraView | null;
+}> = ({ settings, overrideRef, overrideActive, clock, preset = null }) => {
   const { camera } = useThree();
   const controlsRef = useRef<any>();
   const userInteractingRef = useRef(false);
   const lastInteractionTimeRef = useRef(0);
+  const defaultFovRef = useRef((camera as THREE.PerspectiveCamera).fov || 75);
+  const tourTimeRef = useRef(0);
+  const pausedViewRef = useRef<CameraView | null>(null);
+  const presetFlightRef = useRef<{ from: CameraView; startedAt: number } | null>(null);
+
+  const tour = Array.isArray(settings.cameraTour) ? settings.cameraTour : [];
+  const tourPlaying = Boolean(settings.cameraTourEnabled) && tour.length > 0;
+  const tourCurve = useMemo(() => createTourCurve(tour), [tour]);
+
+  const applyFov = useCallback((fov: number) => {
+    const perspective = camera as THREE.PerspectiveCamera;
+    if (perspective.isPerspectiveCamera && Math.abs(perspective.fov - fov) > 0.001) {
+      perspective.fov = fov;
+      perspective.updateProjectionMatrix();
+    }
+  }, [camera]);
+
+  const captureView = useCallback((): CameraView => ({
+    position: camera.position.toArray() as [number, number, number],
+    target: (controlsRef.current?.target ?? new THREE.Vector3()).toArray() as [number, number, number],
+    fov: (camera as THREE.PerspectiveCamera).fov || defaultFovRef.current
+  }), [camera]);
+
+  const applyView = useCallback((view: CameraView) => {
+    camera.position.set(...view.position);
+    controlsRef.current?.target.set(...view.target);
+    applyFov(view.fov);
+    controlsRef.current?.update();
+  }, [camera, applyFov]);
+
+  // Lets the tour editor record the current view and jump to a keyframe
+  useEffect(() => {
+    return registerLiveCamera({ capture: captureView, moveTo: applyView });
+  }, [captureView, applyView]);
+
+  // Each new preset flies in from wherever the camera is at that moment
+  useEffect(() => {
+    presetFlightRef.current = null;
+  }, [preset]);
+
+  // Restart from the first keyframe whenever the tour is started or edited, and restore the lens when it stops
+  useEffect(() => {
+    tourTimeRef.current = 0;
+    if (!tourPlaying) applyFov(defaultFovRef.current);
+  }, [tourPlaying, tour, applyFov]);
   
   // Initialize camera position
   useEffect(() => {
@@ -229,6 +310,53 @@ const CameraController: React.FC<{ settings: SceneSettings }> = ({ settings }) =
   // Auto rotation when enabled
   useFrame((state, delta) => {
     if (!controlsRef.current) return;
+    const override = overrideRef.current;
+
+    // A recorded tour takes over the camera completely. Locally it pauses while a photo is spotlighted;
+    // on a shared clock it keeps going so every screen stays on the same frame.
+    let baseView: CameraView | null = null;
+    if (preset) {
+      // A preset picked on the remote holds the camera until it's released
+      presetFlightRef.current = presetFlightRef.current || { from: captureView(), startedAt: state.clock.elapsedTime };
+      const flight = presetFlightRef.current;
+      const progress = Math.min(1, (state.clock.elapsedTime - flight.startedAt) / CAMERA_PRESET_FLY_SECONDS);
+      baseView = lerpCameraView(flight.from, preset, TRANSITION_EASINGS.easeInOut(progress));
+    } else if (tourPlaying) {
+      if (clock) {
+        tourTimeRef.current = clock();
+      } else if (!override) {
+        tourTimeRef.current += delta;
+      }
+      baseView = sampleCameraTour(tour, tourTimeRef.current, tourCurve);
+    } else if (clock && settings.cameraRotationEnabled) {
+      // With a shared clock the angle is derived from the time, so every screen lands on the same view
+      const distance = settings.cameraDistance || 20;
+      const height = settings.cameraHeight || 0;
+      const spherical = new THREE.Spherical().setFromVector3(new THREE.Vector3(distance, height * 0.7, distance));
+      spherical.theta += (settings.cameraRotationSpeed || 0.5) * clock();
+      baseView = {
+        position: new THREE.Vector3().setFromSpherical(spherical).add(new THREE.Vector3(0, height * 0.3, 0)).toArray() as [number, number, number],
+        target: [0, height * 0.3, 0],
+        fov: defaultFovRef.current
+      };
+    }
+
+    // A spotlighted photo blends from wherever the camera would otherwise be, or from where it stood when it began
+    if (override) {
+      if (!baseView) {
+        pausedViewRef.current = pausedViewRef.current || captureView();
+        baseView = pausedViewRef.current;
+      }
+      applyView(lerpCameraView(baseView, override.focus, override.progress));
+      return;
+    }
+    pausedViewRef.current = null;
+
+    if (baseView) {
+      applyView(baseView);
+      return;
+    }
+    if (clock) return;
 
     // Only auto-rotate if camera rotation is enabled AND user isn't interacting
     if (settings.cameraRotationEnabled && !userInteractingRef.current) {
@@ -254,7 +382,7 @@ const CameraController: React.FC<{ settings: SceneSettings }> = ({ settings }) =
   return (
     <OrbitControls
       ref={controlsRef}
-      enabled={settings.cameraEnabled !== false} // Can be disabled via settings
+      enabled={settings.cameraEnabled !== false && !tourPlaying && !overrideActive && !clock && !preset} // Can be disabled via settings, and is locked during tours, spotlights, presets and clock-synced playback
       enablePan={true}
       enableZoom={true}
       enableRotate={true}
@@ -375,7 +503,9 @@ const AnimationController: React.FC<{
   settings: SceneSettings;
   photos: Photo[];
   onPositionsUpdate: (photos: PhotoWithPosition[]) => void;
-}> = ({ settings, photos, onPositionsUpdate }) => {
+  clock?: () => number;
+  paused?: boolean;
+}> = ({ settings, photos, onPositionsUpdate, clock, paused = false }) => {
   const slotManagerRef = useRef(new SlotManager(settings.photoCount || 100));
   const lastPhotoCount = useRef(settings.photoCount || 100);
   const lastPositionsRef = useRef<PhotoWithPosition[]>([]);
@@ -387,24 +517,62 @@ const AnimationController: React.FC<{
   
   const lastPhotoIds = useRef(currentPhotoIds);
   const animationFrameRef = useRef<number>();
+
+  // Pattern morph state - clock time is real seconds, independent of animation speed
+  const clockTimeRef = useRef(0);
+  // Pausing holds the pattern where it is; time spent paused is skipped so resuming doesn't jump
+  const pausedAtRef = useRef<number | null>(null);
+  const pausedTotalRef = useRef(0);
+  const lastPatternRef = useRef(settings.animationPattern || 'grid');
+  const transitionRef = useRef<PatternTransition | null>(null);
+  const lastPatternStateRef = useRef<PatternState | null>(null);
   
-  const updatePositions = useCallback((time: number = 0) => {
+  const updatePositions = useCallback((time: number = 0, clockTime: number = clockTimeRef.current) => {
     try {
       const safePhotos = Array.isArray(photos) ? photos.filter(p => p && p.id) : [];
       const safeSettings = settings || {};
+      const patternType = safeSettings.animationPattern || 'grid';
 
       // Get STABLE slot assignments - only new photos get new slots
       const slotAssignments = slotManagerRef.current.assignSlots(safePhotos);
+
+      // Start a morph whenever the pattern changes instead of snapping to the new layout
+      if (patternType !== lastPatternRef.current) {
+        const interrupted = transitionRef.current && !transitionRef.current.isComplete(clockTime);
+        transitionRef.current = new PatternTransition(
+          lastPatternRef.current,
+          patternType,
+          clockTime,
+          safeSettings,
+          interrupted ? lastPatternStateRef.current : null
+        );
+        lastPatternRef.current = patternType;
+      }
       
       // Generate pattern positions with error handling
       let patternState;
       try {
         const pattern = PatternFactory.createPattern(
-          safeSettings.animationPattern || 'grid', 
+          patternType, 
           safeSettings, 
           safePhotos
         );
         patternState = pattern.generatePositions(time);
+
+        const transition = transitionRef.current;
+        if (transition) {
+          if (transition.isComplete(clockTime)) {
+            transitionRef.current = null;
+          } else {
+            const fromState = transition.snapshot || PatternFactory.createPattern(
+              transition.fromPattern,
+              safeSettings,
+              safePhotos
+            ).generatePositions(time);
+            patternState = transition.blend(fromState, patternState, clockTime);
+          }
+        }
+        lastPatternStateRef.current = patternState;
       } catch (error) {
         console.error('Pattern generation error:', error);
         // Fallback to simple grid
@@ -436,9 +604,9 @@ const AnimationController: React.FC<{
       }
       
       // Add empty slots for remaining positions - STABLE ORDER
+      const filledSlots = new Set(photosWithPositions.map(p => p.slotIndex));
       for (let i = 0; i < (safeSettings.photoCount || 100); i++) {
-        const hasPhoto = photosWithPositions.some(p => p.slotIndex === i);
-        if (!hasPhoto) {
+        if (!filledSlots.has(i)) {
           photosWithPositions.push({
             id: `placeholder-${i}`, // Stable ID for empty slots
             url: '',
@@ -502,10 +670,19 @@ const AnimationController: React.FC<{
 
   // Regular animation updates
   useFrame((state) => {
+    const elapsed = clock ? clock() : state.clock.elapsedTime;
+    if (paused) {
+      pausedAtRef.current = pausedAtRef.current ?? elapsed;
+    } else if (pausedAtRef.current !== null) {
+      pausedTotalRef.current += elapsed - pausedAtRef.current;
+      pausedAtRef.current = null;
+    }
+    const animationElapsed = (pausedAtRef.current ?? elapsed) - pausedTotalRef.current;
     const time = settings.animationEnabled ? 
-      state.clock.elapsedTime * ((settings.animationSpeed || 50) / 50) : 0;
+      animationElapsed * ((settings.animationSpeed || 50) / 50) : 0;
     
-    updatePositions(time);
+    clockTimeRef.current = elapsed;
+    updatePositions(time, elapsed);
   });
 
   // Cleanup animation frame on unmount
@@ -655,56 +832,40 @@ const PhotoMesh: React.FC<{
 }> = React.memo(({ photo, size, emptySlotColor, pattern, shouldFaceCamera, brightness }) => {
   const meshRef = useRef<THREE.Mesh>(null);
   const { camera } = useThree();
-  const [texture, setTexture] = useState<THREE.Texture | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [hasError, setHasError] = useState(false);
   const isInitializedRef = useRef(false);
   const lastPositionRef = useRef<[number, number, number]>([0, 0, 0]);
   const currentPosition = useRef<THREE.Vector3>(new THREE.Vector3(...photo.targetPosition));
-  const currentRotation = useRef<THREE.Euler>(new THREE.Euler(...photo.targetRotation));
+  // Quaternion so rotations interpolate along the shortest arc instead of spinning at Euler wrap-around
+  const currentRotation = useRef<THREE.Quaternion>(
+    new THREE.Quaternion().setFromEuler(new THREE.Euler(...photo.targetRotation))
+  );
 
   // Initialize position immediately to prevent jarring movements
   useEffect(() => {
     currentPosition.current.set(...photo.targetPosition);
-    currentRotation.current.set(...photo.targetRotation);
+    currentRotation.current.setFromEuler(new THREE.Euler(...photo.targetRotation));
   }, []);
 
-  useEffect(() => {
-    if (!photo.url) {
-      setIsLoading(false);
-      return;
-    }
+  // Upgrade to full resolution only while the photo covers more screen pixels than its thumbnail has
+  const [wantsFullResolution, setWantsFullResolution] = useState(false);
+  const frameCountRef = useRef(0);
+  const { texture } = usePhotoTexture(photo.url, wantsFullResolution, photo.thumbnail_url);
 
-    const loader = new THREE.TextureLoader();
-    setIsLoading(true);
-    setHasError(false);
-
-    const handleLoad = (loadedTexture: THREE.Texture) => {
-      loadedTexture.minFilter = THREE.LinearFilter;
-      loadedTexture.magFilter = THREE.LinearFilter;
-      loadedTexture.format = THREE.RGBAFormat;
-      loadedTexture.generateMipmaps = false;
-      setTexture(loadedTexture);
-      setIsLoading(false);
-    };
-
-    const handleError = () => {
-      setHasError(true);
-      setIsLoading(false);
-    };
-
-    const imageUrl = photo.url.includes('?') 
-      ? `${photo.url}&t=${Date.now()}`
-      : `${photo.url}?t=${Date.now()}`;
-
-    loader.load(imageUrl, handleLoad, undefined, handleError);
-
-    return () => {
-      if (texture) {
-        texture.dispose();
-      }
-    };
-  }, [photo.url]);
+  useFrame((state) => {
+    if (!photo.url || ++frameCountRef.current % FULL_RES_CHECK_INTERVAL !== 0) return;
+
+    const perspective = state.camera as THREE.PerspectiveCamera;
+    const distance = Math.max(0.1, state.camera.position.distanceTo(currentPosition.current));
+    const visibleHeight = 2 * distance * Math.tan(THREE.MathUtils.degToRad((perspective.fov || 75) / 2));
+    const pixelHeight = ((size || 4.0) / visibleHeight) * state.size.height * state.viewport.dpr;
+
+    // Hysteresis keeps photos near the threshold from flipping back and forth
+    const threshold = wantsFullResolution ? FULL_RES_EXIT_PIXELS : FULL_RES_ENTER_PIXELS;
+    const shouldUseFull = pixelHeight > threshold;
+    if (shouldUseFull !== wantsFullResolution) {
+      setWantsFullResolution(shouldUseFull);
+    }
+  });
 
   // Camera facing logic
   useFrame(() => {
@@ -729,7 +890,7 @@ const PhotoMesh: React.FC<{
     if (!meshRef.current) return;
 
     const targetPosition = new THREE.Vector3(...photo.targetPosition);
-    const targetRotation = new THREE.Euler(...photo.targetRotation);
+    const targetRotation = new THREE.Quaternion().setFromEuler(new THREE.Euler(...photo.targetRotation));
 
     const distance = currentPosition.current.distanceTo(targetPosition);
     const isTeleport = distance > TELEPORT_THRESHOLD;
@@ -741,14 +902,12 @@ const PhotoMesh: React.FC<{
     } else {
       // Smooth interpolation for normal movement
       currentPosition.current.lerp(targetPosition, POSITION_SMOOTHING);
-      currentRotation.current.x += (targetRotation.x - currentRotation.current.x) * ROTATION_SMOOTHING;
-      currentRotation.current.y += (targetRotation.y - currentRotation.current.y) * ROTATION_SMOOTHING;
-      currentRotation.current.z += (targetRotation.z - currentRotation.current.z) * ROTATION_SMOOTHING;
+      currentRotation.current.slerp(targetRotation, ROTATION_SMOOTHING);
     }
 
     meshRef.current.position.copy(currentPosition.current);
     if (!shouldFaceCamera) {
-      meshRef.current.rotation.copy(currentRotation.current);
+      meshRef.current.quaternion.copy(currentRotation.current);
     }
   });
 
@@ -768,32 +927,7 @@ const PhotoMesh: React.FC<{
       return brightnessMaterial;
     } else {
       // FIXED: Empty slot material using EXACT emptySlotColor setting
-      const canvas = document.createElement('canvas');
-      canvas.width = 512;
-      canvas.height = 512;
-      const ctx = canvas.getContext('2d')!;
-      
-      // Use EXACT empty slot color from settings
-      ctx.fillStyle = emptySlotColor;
-      ctx.fillRect(0, 0, 512, 512);
-      
-      // Add pattern overlay
-      if (pattern === 'grid') {
-        ctx.strokeStyle = '#ffffff20';
-        ctx.lineWidth = 2;
-        for (let i = 0; i <= 512; i += 64) {
-          ctx.beginPath();
-          ctx.moveTo(i, 0);
-          ctx.lineTo(i, 512);
-          ctx.stroke();
-          ctx.beginPath();
-          ctx.moveTo(0, i);
-          ctx.lineTo(512, i);
-          ctx.stroke();
-        }
-      }
-      
-      const emptyTexture = new THREE.CanvasTexture(canvas);
+      const emptyTexture = createEmptySlotTexture(emptySlotColor, pattern);
       return new THREE.MeshStandardMaterial({
         map: emptyTexture,
         transparent: false,
@@ -804,6 +938,14 @@ const PhotoMesh: React.FC<{
     }
   }, [texture, emptySlotColor, pattern, brightness]);
 
+  // Photo textures belong to the texture manager; only the empty slot canvas is owned here
+  useEffect(() => {
+    return () => {
+      if (!texture) material.map?.dispose();
+      material.dispose();
+    };
+  }, [material]);
+
   return (
     <mesh
       ref={meshRef}
@@ -865,12 +1007,71 @@ const PhotoDebugger: React.FC<{ photos: Photo[] }> = ({ photos }) => {
 };
 
 // Main CollageScene component
-const CollageScene: React.FC<CollageSceneProps> = ({ photos, settings, onSettingsChange }) => {
+const CollageScene: React.FC<CollageSceneProps> = ({
+  photos,
+  settings,
+  onSettingsChange,
+  focusPhotoId = null,
+  focusStartAt = null,
+  onFocusComplete,
+  clock,
+  videoWall = null,
+  paused = false,
+  cameraPreset = null
+}) => {
   const [photosWithPositions, setPhotosWithPositions] = useState<PhotoWithPosition[]>([]);
+  // Latest slots for the instanced renderer, which reads them every frame without re-rendering React
+  const slotsRef = useRef<PhotoWithPosition[]>([]);
+  const cameraOverrideRef = useRef<CameraOverride | null>(null);
 
   const safePhotos = Array.isArray(photos) ? photos : [];
   const safeSettings = { ...settings };
 
+  const renderMode = safeSettings.photoRenderMode || 'auto';
+  const useInstancedRenderer = renderMode === 'instanced' ||
+    (renderMode === 'auto' && (safeSettings.photoCount || 100) >= INSTANCED_RENDER_THRESHOLD);
+
+  const photoUrls = useMemo(() => safePhotos.map(p => p.url).filter(Boolean), [photos]);
+
+  // Adaptive quality - the governor inside the canvas measures frames, the level drives what gets rendered
+  const [qualityLevel, setQualityLevel] = useState(0);
+  const frameStatsRef = useRef<FrameStats | null>(null);
+  const quality = QUALITY_LEVELS[qualityLevel] || QUALITY_LEVELS[0];
+  // Wall tiles stay at full quality - one screen dropping its reflections would show a seam
+  const adaptiveQuality = !videoWall && (safeSettings.adaptiveQuality ?? true);
+
+  const [diagnosticsVisible, setDiagnosticsVisible] = useState(Boolean(safeSettings.showDiagnostics));
+  useEffect(() => {
+    setDiagnosticsVisible(Boolean(safeSettings.showDiagnostics));
+  }, [safeSettings.showDiagnostics]);
+
+  // Shift+D toggles the diagnostics overlay on any screen, including the viewer
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA' || target?.isContentEditable) return;
+      if (event.shiftKey && event.key.toLowerCase() === 'd') {
+        setDiagnosticsVisible((visible) => !visible);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handlePositionsUpdate = useCallback((updated: PhotoWithPosition[]) => {
+    slotsRef.current = updated;
+    if (!useInstancedRenderer) {
+      setPhotosWithPositions(updated);
+    }
+  }, [useInstancedRenderer]);
+
+  // Positions only reach React state in standard mode, so catch up when switching back to it
+  useEffect(() => {
+    if (!useInstancedRenderer) {
+      setPhotosWithPositions(slotsRef.current);
+    }
+  }, [useInstancedRenderer]);
+
   // Background style for gradient backgrounds
   const backgroundStyle = useMemo(() => {
     if (safeSettings.backgroundGradient) {
@@ -893,11 +1094,12 @@ const CollageScene: React.FC<CollageSceneProps> = ({ photos, settings, onSetting
     photoCount: safePhotos.length,
     settingsPhotoCount: safeSettings.photoCount,
     positionsCount: photosWithPositions.length,
+    instanced: useInstancedRenderer,
     emptySlotColor: safeSettings.emptySlotColor
   });
 
   return (
-    <div style={backgroundStyle} className="w-full h-full">
+    <div style={backgroundStyle} className="relative w-full h-full">
       <Canvas
         shadows={safeSettings.shadowsEnabled}
         camera={{ 
@@ -927,26 +1129,72 @@ const CollageScene: React.FC<CollageSceneProps> = ({ photos, settings, onSetting
         linear={true}
       >
         <BackgroundRenderer settings={safeSettings} />
-        <CameraController settings={safeSettings} />
+        <CameraController
+          settings={safeSettings}
+          overrideRef={cameraOverrideRef}
+          overrideActive={Boolean(focusPhotoId)}
+          clock={clock}
+          preset={cameraPreset}
+        />
+        {videoWall && <VideoWallViewport config={videoWall} />}
         <SceneLighting settings={safeSettings} />
-        <Floor settings={safeSettings} />
+        <Floor settings={safeSettings} reflections={quality.floorReflections} />
         <Grid settings={safeSettings} />
         
         <AnimationController
           settings={safeSettings}
           photos={safePhotos}
-          onPositionsUpdate={setPhotosWithPositions}
+          onPositionsUpdate={handlePositionsUpdate}
+          clock={clock}
+          paused={paused}
         />
         
         <PhotoDebugger photos={safePhotos} />
         
-        <PhotoRenderer 
-          photosWithPositions={photosWithPositions}
-          settings={safeSettings}
-        />
+        {useInstancedRenderer ? (
+          <InstancedPhotoRenderer
+            slotsRef={slotsRef}
+            photoUrls={photoUrls}
+            settings={safeSettings}
+          />
+        ) : (
+          <PhotoRenderer 
+            photosWithPositions={photosWithPositions}
+            settings={safeSettings}
+          />
+        )}
         
-        <DynamicLightingSystem settings={safeSettings} />
+        <NewPhotoSpotlight
+          photoId={focusPhotoId}
+          startAt={focusStartAt}
+          clock={clock}
+          slotsRef={slotsRef}
+          cameraOverrideRef={cameraOverrideRef}
+          photoSize={safeSettings.photoSize || 4.0}
+          holdSeconds={safeSettings.newPhotoFocusSeconds ?? 5}
+          onComplete={(photoId) => onFocusComplete?.(photoId)}
+        />
+
+        {quality.volumetricSpotlights && <DynamicLightingSystem settings={safeSettings} />}
+
+        <QualityGovernor
+          enabled={adaptiveQuality}
+          level={qualityLevel}
+          onLevelChange={setQualityLevel}
+          statsRef={frameStatsRef}
+        />
       </Canvas>
+
+      {diagnosticsVisible && (
+        <DiagnosticsOverlay
+          statsRef={frameStatsRef}
+          qualityLevel={qualityLevel}
+          adaptiveQuality={adaptiveQuality}
+          slotCount={safeSettings.photoCount || 100}
+          photoCount={safePhotos.length}
+          instanced={useInstancedRenderer}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,61 @@
+// src/components/three/DiagnosticsOverlay.tsx - On-screen frame rate, quality level and GPU usage readout
+import React, { useEffect, useState } from 'react';
+import { textureManager, type TextureManagerStats } from '../../lib/textureManager';
+import { QUALITY_LEVELS, type FrameStats } from './QualityGovernor';
+
+const REFRESH_MS = 500;
+
+const DiagnosticsOverlay: React.FC<{
+  statsRef: React.MutableRefObject<FrameStats | null>;
+  qualityLevel: number;
+  adaptiveQuality: boolean;
+  slotCount: number;
+  photoCount: number;
+  instanced: boolean;
+}> = ({ statsRef, qualityLevel, adaptiveQuality, slotCount, photoCount, instanced }) => {
+  const [frameStats, setFrameStats] = useState<FrameStats | null>(statsRef.current);
+  const [textureStats, setTextureStats] = useState<TextureManagerStats>(textureManager.getStats());
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setFrameStats(statsRef.current);
+      setTextureStats(textureManager.getStats());
+    }, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [statsRef]);
+
+  const quality = QUALITY_LEVELS[qualityLevel] || QUALITY_LEVELS[0];
+  const fps = frameStats?.fps ?? 0;
+  const fpsColor = fps >= 55 ? 'text-green-400' : fps >= 30 ? 'text-yellow-400' : 'text-red-400';
+  const toMB = (bytes: number) => (bytes / 1024 / 1024).toFixed(0);
+
+  const rows: [string, string][] = [
+    ['Frame time', frameStats ? `${frameStats.frameMs.toFixed(1)} ms` : '—'],
+    ['Quality', `${quality.name}${adaptiveQuality ? '' : ' (fixed)'}`],
+    ['Pixel ratio', frameStats ? frameStats.pixelRatio.toFixed(2) : '—'],
+    ['Renderer', instanced ? 'Instanced' : 'Standard'],
+    ['Slots', `${photoCount} photos / ${slotCount} slots`],
+    ['Draw calls', frameStats ? String(frameStats.drawCalls) : '—'],
+    ['Triangles', frameStats ? frameStats.triangles.toLocaleString() : '—'],
+    ['GPU textures', frameStats ? String(frameStats.gpuTextures) : '—'],
+    ['Photo textures', `${textureStats.textures} (${textureStats.fullResolution} full res)`],
+    ['Texture memory', `${toMB(textureStats.bytes)} / ${toMB(textureStats.budgetBytes)} MB`],
+  ];
+
+  return (
+    <div className="absolute top-20 left-4 z-30 pointer-events-none bg-black/70 backdrop-blur-sm border border-white/10 rounded-lg px-3 py-2 font-mono text-xs text-gray-300">
+      <div className={`text-lg font-bold ${fpsColor}`}>
+        {fps.toFixed(0)} FPS
+      </div>
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between space-x-4">
+          <span className="text-gray-500">{label}</span>
+          <span>{value}</span>
+        </div>
+      ))}
+      <div className="mt-1 text-gray-500">Shift+D to hide</div>
+    </div>
+  );
+};
+
+export default DiagnosticsOverlay;
@@ -0,0 +1,237 @@
+// src/components/three/InstancedPhotoRenderer.tsx - Draws every slot with a handful of instanced meshes for large collages
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { type SceneSettings } from '../../store/sceneStore';
+import { PhotoAtlas } from './PhotoAtlas';
+
+export type InstancedSlot = {
+  id: string;
+  url: string;
+  thumbnail_url?: string | null;
+  slotIndex: number;
+  targetPosition: [number, number, number];
+  targetRotation: [number, number, number];
+};
+
+// Must match the smoothing used by PhotoMesh so switching render paths looks identical
+const POSITION_SMOOTHING = 0.1;
+const ROTATION_SMOOTHING = 0.1;
+const TELEPORT_THRESHOLD = 30;
+
+// Canvas texture used for slots without a photo, shared with the per-mesh renderer
+export const createEmptySlotTexture = (emptySlotColor: string, pattern: string): THREE.CanvasTexture => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 512;
+  canvas.height = 512;
+  const ctx = canvas.getContext('2d')!;
+
+  // Use EXACT empty slot color from settings
+  ctx.fillStyle = emptySlotColor;
+  ctx.fillRect(0, 0, 512, 512);
+
+  // Add pattern overlay
+  if (pattern === 'grid') {
+    ctx.strokeStyle = '#ffffff20';
+    ctx.lineWidth = 2;
+    for (let i = 0; i <= 512; i += 64) {
+      ctx.beginPath();
+      ctx.moveTo(i, 0);
+      ctx.lineTo(i, 512);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.moveTo(0, i);
+      ctx.lineTo(512, i);
+      ctx.stroke();
+    }
+  }
+
+  return new THREE.CanvasTexture(canvas);
+};
+
+// Standard material that reads its map from a per-instance atlas cell
+const createAtlasMaterial = (map: THREE.Texture, brightness: number): THREE.MeshStandardMaterial => {
+  const material = new THREE.MeshStandardMaterial({
+    map,
+    transparent: true,
+    side: THREE.DoubleSide,
+    toneMapped: false,
+  });
+  material.color.setScalar(brightness);
+  material.onBeforeCompile = (shader) => {
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', '#include <common>\nattribute vec4 atlasUv;')
+      .replace('#include <uv_vertex>', '#include <uv_vertex>\n#ifdef USE_MAP\n  vMapUv = vMapUv * atlasUv.zw + atlasUv.xy;\n#endif');
+  };
+  return material;
+};
+
+const InstancedPhotoRenderer: React.FC<{
+  slotsRef: React.MutableRefObject<InstancedSlot[]>;
+  photoUrls: string[];
+  settings: SceneSettings;
+}> = ({ slotsRef, photoUrls, settings }) => {
+  const { gl, camera } = useThree();
+  const groupRef = useRef<THREE.Group>(null);
+  const pageMeshesRef = useRef<THREE.InstancedMesh[]>([]);
+  const emptyMeshRef = useRef<THREE.InstancedMesh | null>(null);
+
+  // Smoothed per-slot transforms, indexed by slot
+  const currentPositions = useRef(new Map<number, THREE.Vector3>());
+  const currentRotations = useRef(new Map<number, THREE.Quaternion>());
+
+  const atlas = useMemo(() => new PhotoAtlas(gl), [gl]);
+  const size = settings.photoSize || 4.0;
+  const slotCount = settings.photoCount || 100;
+  const brightness = settings.photoBrightness || 1.0;
+  const emptySlotColor = settings.emptySlotColor || '#1A1A1A';
+  const pattern = settings.animationPattern || 'grid';
+  const shouldFaceCamera = pattern === 'float';
+
+  const geometry = useMemo(() => {
+    const plane = new THREE.PlaneGeometry(size * (9 / 16), size);
+
+    // Instance i of a page mesh always shows cell i of that page, so the UV offsets never change
+    const uvs = new Float32Array(atlas.cellsPerPage * 4);
+    for (let cell = 0; cell < atlas.cellsPerPage; cell++) {
+      uvs.set(atlas.getCellUv(cell), cell * 4);
+    }
+    plane.setAttribute('atlasUv', new THREE.InstancedBufferAttribute(uvs, 4));
+    return plane;
+  }, [size, atlas]);
+
+  const emptyMaterial = useMemo(() => new THREE.MeshStandardMaterial({
+    map: createEmptySlotTexture(emptySlotColor, pattern),
+    transparent: false,
+    opacity: 1.0,
+    side: THREE.DoubleSide,
+    color: 0xffffff,
+  }), [emptySlotColor, pattern]);
+
+  // Drop atlas cells for photos that were deleted
+  useEffect(() => {
+    atlas.retainOnly(new Set(photoUrls));
+  }, [atlas, photoUrls]);
+
+  // One instance per slot for placeholders and photos that are still loading
+  useEffect(() => {
+    const group = groupRef.current;
+    if (!group) return;
+
+    const mesh = new THREE.InstancedMesh(geometry, emptyMaterial, slotCount);
+    mesh.frustumCulled = false;
+    mesh.castShadow = true;
+    mesh.receiveShadow = true;
+    mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    group.add(mesh);
+    emptyMeshRef.current = mesh;
+
+    return () => {
+      group.remove(mesh);
+      mesh.dispose();
+      emptyMeshRef.current = null;
+    };
+  }, [geometry, emptyMaterial, slotCount]);
+
+  // Atlas page meshes are created lazily as pages are allocated, so rebuild them when inputs change
+  useEffect(() => {
+    const group = groupRef.current;
+    return () => {
+      pageMeshesRef.current.forEach((mesh) => {
+        group?.remove(mesh);
+        (mesh.material as THREE.Material).dispose();
+        mesh.dispose();
+      });
+      pageMeshesRef.current = [];
+    };
+  }, [geometry, brightness]);
+
+  useEffect(() => () => emptyMaterial.map?.dispose(), [emptyMaterial]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  useEffect(() => () => atlas.dispose(), [atlas]);
+
+  const createPageMesh = (pageIndex: number): THREE.InstancedMesh => {
+    const mesh = new THREE.InstancedMesh(
+      geometry,
+      createAtlasMaterial(atlas.pages[pageIndex].texture, brightness),
+      atlas.cellsPerPage
+    );
+    mesh.frustumCulled = false;
+    mesh.castShadow = true;
+    mesh.receiveShadow = true;
+    mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    return mesh;
+  };
+
+  const matrix = useMemo(() => new THREE.Matrix4(), []);
+  const scale = useMemo(() => new THREE.Vector3(1, 1, 1), []);
+  const targetPosition = useMemo(() => new THREE.Vector3(), []);
+  const targetRotation = useMemo(() => new THREE.Quaternion(), []);
+  const euler = useMemo(() => new THREE.Euler(), []);
+  const facing = useMemo(() => new THREE.Object3D(), []);
+
+  useFrame(() => {
+    const group = groupRef.current;
+    const emptyMesh = emptyMeshRef.current;
+    if (!group || !emptyMesh) return;
+
+    while (pageMeshesRef.current.length < atlas.pages.length) {
+      const mesh = createPageMesh(pageMeshesRef.current.length);
+      group.add(mesh);
+      pageMeshesRef.current.push(mesh);
+    }
+
+    // Everything starts hidden; only slots and cells in use this frame are shown
+    emptyMesh.instanceMatrix.array.fill(0);
+    pageMeshesRef.current.forEach((mesh) => mesh.instanceMatrix.array.fill(0));
+
+    for (const slot of slotsRef.current) {
+      const index = slot.slotIndex;
+      if (index >= slotCount) continue;
+
+      targetPosition.set(...slot.targetPosition);
+      targetRotation.setFromEuler(euler.set(...slot.targetRotation));
+
+      let position = currentPositions.current.get(index);
+      let rotation = currentRotations.current.get(index);
+      if (!position || !rotation) {
+        position = targetPosition.clone();
+        rotation = targetRotation.clone();
+        currentPositions.current.set(index, position);
+        currentRotations.current.set(index, rotation);
+      } else if (position.distanceTo(targetPosition) > TELEPORT_THRESHOLD) {
+        // Instant teleport for large movements
+        position.copy(targetPosition);
+        rotation.copy(targetRotation);
+      } else {
+        position.lerp(targetPosition, POSITION_SMOOTHING);
+        rotation.slerp(targetRotation, ROTATION_SMOOTHING);
+      }
+
+      let quaternion = rotation;
+      if (shouldFaceCamera) {
+        facing.position.copy(position);
+        facing.lookAt(camera.position);
+        quaternion = facing.quaternion;
+      }
+      matrix.compose(position, quaternion, scale);
+
+      const entry = slot.url ? atlas.request(slot.url, slot.thumbnail_url || slot.url) : undefined;
+      const pageMesh = entry?.status === 'ready' ? pageMeshesRef.current[entry.page] : undefined;
+      if (entry && pageMesh) {
+        pageMesh.setMatrixAt(entry.cell, matrix);
+      } else {
+        emptyMesh.setMatrixAt(index, matrix);
+      }
+    }
+
+    emptyMesh.instanceMatrix.needsUpdate = true;
+    pageMeshesRef.current.forEach((mesh) => {
+      mesh.instanceMatrix.needsUpdate = true;
+    });
+  });
+
+  return <group ref={groupRef} />;
+};
+
+export default InstancedPhotoRenderer;
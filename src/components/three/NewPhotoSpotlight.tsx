@@ -0,0 +1,188 @@
+// src/components/three/NewPhotoSpotlight.tsx - Flies the camera to a newly uploaded photo, shows it enlarged, then flies back
+import React, { useEffect, useRef, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { usePhotoTexture } from '../../hooks/usePhotoTexture';
+import { type CameraView } from './CameraTour';
+import { TRANSITION_EASINGS } from './patterns/PatternTransition';
+
+// Where the camera controller should blend toward, and how far (0 = its own view, 1 = the spotlight view)
+export type CameraOverride = {
+  focus: CameraView;
+  progress: number;
+};
+
+type SpotlightSlot = {
+  id: string;
+  url: string;
+  targetPosition: [number, number, number];
+};
+
+type Spotlight = {
+  waitingSince: number | null;
+  startTime: number | null;
+  focus: CameraView | null;
+  anchor: THREE.Vector3;
+  facing: THREE.Vector3;
+  done: boolean;
+};
+
+const FLY_SECONDS = 1.5;
+// Give up on photos that never get a slot or a texture (e.g. the collage is already full)
+const WAIT_TIMEOUT_SECONDS = 8;
+// The spotlighted copy grows to this multiple of the photo size and fills this share of the screen height
+const ENLARGE_SCALE = 2.5;
+const SCREEN_FILL = 0.6;
+// Keeps the copy in front of its neighbours in tightly packed patterns
+const LIFT_DISTANCE = 0.5;
+const HIGHLIGHT_COLOR = '#a855f7';
+
+const easing = TRANSITION_EASINGS.easeInOut;
+
+const createSpotlight = (): Spotlight => ({
+  waitingSince: null,
+  startTime: null,
+  focus: null,
+  anchor: new THREE.Vector3(),
+  facing: new THREE.Vector3(0, 0, 1),
+  done: false
+});
+
+const NewPhotoSpotlight: React.FC<{
+  photoId: string | null;
+  // Shared clock time to begin at, so every synced screen flies in on the same frame; otherwise starts once loaded
+  startAt?: number | null;
+  clock?: () => number;
+  slotsRef: React.MutableRefObject<SpotlightSlot[]>;
+  cameraOverrideRef: React.MutableRefObject<CameraOverride | null>;
+  photoSize: number;
+  holdSeconds: number;
+  onComplete: (photoId: string) => void;
+}> = ({ photoId, startAt = null, clock, slotsRef, cameraOverrideRef, photoSize, holdSeconds, onComplete }) => {
+  const { camera } = useThree();
+  const groupRef = useRef<THREE.Group>(null);
+  const frameMaterialRef = useRef<THREE.MeshBasicMaterial>(null);
+  const [url, setUrl] = useState('');
+  const { texture, hasError } = usePhotoTexture(url, true);
+  const spotlightRef = useRef<Spotlight>(createSpotlight());
+
+  useEffect(() => {
+    spotlightRef.current = createSpotlight();
+    setUrl('');
+    if (photoId) console.log('🔦 SPOTLIGHT: Queued new photo', photoId.slice(-4));
+
+    // Hand the camera back if the queue is cleared mid-flight
+    return () => {
+      cameraOverrideRef.current = null;
+    };
+  }, [photoId, startAt, cameraOverrideRef]);
+
+  useFrame((state) => {
+    const group = groupRef.current;
+    const spotlight = spotlightRef.current;
+    if (!photoId || spotlight.done) {
+      if (group) group.visible = false;
+      return;
+    }
+
+    const now = clock ? clock() : state.clock.elapsedTime;
+
+    const finish = () => {
+      cameraOverrideRef.current = null;
+      if (group) group.visible = false;
+      spotlight.done = true;
+      onComplete(photoId);
+    };
+
+    if (spotlight.startTime === null) {
+      spotlight.waitingSince = spotlight.waitingSince ?? now;
+      const slot = slotsRef.current.find((entry) => entry.id === photoId);
+      if (slot && slot.url !== url) setUrl(slot.url);
+
+      const deadline = Math.max(spotlight.waitingSince, startAt ?? spotlight.waitingSince) + WAIT_TIMEOUT_SECONDS;
+      if (now > deadline || hasError) {
+        console.log('🔦 SPOTLIGHT: Skipping photo without a slot or texture', photoId.slice(-4));
+        finish();
+        return;
+      }
+      if (!slot || !texture || (startAt !== null && now < startAt)) return;
+
+      // Approach from the side the audience is already looking from
+      const fov = (camera as THREE.PerspectiveCamera).fov || 75;
+      spotlight.anchor.set(...slot.targetPosition);
+      spotlight.facing.copy(camera.position).sub(spotlight.anchor);
+      if (spotlight.facing.lengthSq() < 0.0001) spotlight.facing.set(0, 0, 1);
+      spotlight.facing.normalize();
+
+      const enlargedHeight = photoSize * ENLARGE_SCALE;
+      const distance = enlargedHeight / SCREEN_FILL / (2 * Math.tan(THREE.MathUtils.degToRad(fov) / 2));
+
+      spotlight.focus = {
+        position: spotlight.anchor.clone().addScaledVector(spotlight.facing, distance + LIFT_DISTANCE).toArray() as [number, number, number],
+        target: spotlight.anchor.toArray() as [number, number, number],
+        fov
+      };
+      spotlight.startTime = startAt ?? now;
+    }
+
+    const focus = spotlight.focus;
+    if (!focus) return;
+
+    // Fly in, hold, fly out - all measured from the start so late frames catch up instead of stretching it
+    const elapsed = now - spotlight.startTime;
+    const flyOutAt = FLY_SECONDS + holdSeconds;
+    if (elapsed >= flyOutAt + FLY_SECONDS) {
+      finish();
+      return;
+    }
+
+    // 0 = resting in its slot, 1 = fully enlarged in front of the camera
+    const progress = elapsed < FLY_SECONDS
+      ? easing(Math.max(0, elapsed) / FLY_SECONDS)
+      : elapsed < flyOutAt
+        ? 1
+        : 1 - easing((elapsed - flyOutAt) / FLY_SECONDS);
+
+    cameraOverrideRef.current = { focus, progress };
+
+    if (group) {
+      group.visible = true;
+      group.position.copy(spotlight.anchor).addScaledVector(spotlight.facing, LIFT_DISTANCE * progress);
+      group.lookAt(camera.position);
+      group.scale.setScalar(THREE.MathUtils.lerp(1, ENLARGE_SCALE, progress));
+    }
+
+    if (frameMaterialRef.current) {
+      const holding = elapsed >= FLY_SECONDS && elapsed < flyOutAt;
+      const pulse = holding ? 0.75 + 0.25 * Math.sin((elapsed - FLY_SECONDS) * 4) : 1;
+      frameMaterialRef.current.opacity = progress * pulse;
+    }
+  });
+
+  const width = photoSize * (9 / 16);
+  const border = photoSize * 0.04;
+
+  return (
+    <group ref={groupRef} visible={false}>
+      <mesh position={[0, 0, -0.01]} renderOrder={10}>
+        <planeGeometry args={[width + border * 2, photoSize + border * 2]} />
+        <meshBasicMaterial
+          ref={frameMaterialRef}
+          color={HIGHLIGHT_COLOR}
+          transparent
+          opacity={0}
+          toneMapped={false}
+          side={THREE.DoubleSide}
+        />
+      </mesh>
+      {texture && (
+        <mesh renderOrder={11}>
+          <planeGeometry args={[width, photoSize]} />
+          <meshBasicMaterial map={texture} toneMapped={false} side={THREE.DoubleSide} />
+        </mesh>
+      )}
+    </group>
+  );
+};
+
+export default NewPhotoSpotlight;
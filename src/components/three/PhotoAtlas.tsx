@@ -0,0 +1,186 @@
+// src/components/three/PhotoAtlas.tsx - Packs photo thumbnails into a few large GPU textures for instanced rendering
+import * as THREE from 'three';
+
+// Cells keep the 9:16 portrait proportions of the photo planes
+export const ATLAS_CELL_WIDTH = 96;
+export const ATLAS_CELL_HEIGHT = 170;
+const MAX_PAGE_SIZE = 4096;
+const MAX_CONCURRENT_LOADS = 6;
+
+export type AtlasEntry = {
+  page: number;
+  cell: number;
+  status: 'loading' | 'ready' | 'error';
+  source: string; // downloaded image - the photo's stored thumbnail when it has one
+};
+
+type AtlasPage = {
+  texture: THREE.Texture;
+};
+
+export class PhotoAtlas {
+  readonly pageSize: number;
+  readonly columns: number;
+  readonly rows: number;
+  readonly cellsPerPage: number;
+  readonly pages: AtlasPage[] = [];
+
+  private renderer: THREE.WebGLRenderer;
+  private entries = new Map<string, AtlasEntry>();
+  private freeCells: { page: number; cell: number }[] = [];
+  private nextCell = 0;
+  private queue: string[] = [];
+  private activeLoads = 0;
+  private disposed = false;
+
+  // One small canvas reused for every upload - images are cropped into it, then copied into their cell
+  private scratchCanvas: HTMLCanvasElement;
+  private scratchContext: CanvasRenderingContext2D;
+  private scratchTexture: THREE.Texture;
+
+  constructor(renderer: THREE.WebGLRenderer) {
+    this.renderer = renderer;
+    this.pageSize = Math.min(MAX_PAGE_SIZE, renderer.capabilities.maxTextureSize);
+    this.columns = Math.floor(this.pageSize / ATLAS_CELL_WIDTH);
+    this.rows = Math.floor(this.pageSize / ATLAS_CELL_HEIGHT);
+    this.cellsPerPage = this.columns * this.rows;
+
+    this.scratchCanvas = document.createElement('canvas');
+    this.scratchCanvas.width = ATLAS_CELL_WIDTH;
+    this.scratchCanvas.height = ATLAS_CELL_HEIGHT;
+    this.scratchContext = this.scratchCanvas.getContext('2d')!;
+    this.scratchTexture = new THREE.Texture(this.scratchCanvas);
+  }
+
+  // UV offset (xy) and scale (zw) of a cell, inset by half a texel so neighbours don't bleed in
+  getCellUv(cell: number): [number, number, number, number] {
+    const column = cell % this.columns;
+    const row = Math.floor(cell / this.columns);
+    const texel = 1 / this.pageSize;
+    return [
+      (column * ATLAS_CELL_WIDTH) * texel + texel / 2,
+      (row * ATLAS_CELL_HEIGHT) * texel + texel / 2,
+      ATLAS_CELL_WIDTH * texel - texel,
+      ATLAS_CELL_HEIGHT * texel - texel
+    ];
+  }
+
+  get(url: string): AtlasEntry | undefined {
+    return this.entries.get(url);
+  }
+
+  // Returns the photo's entry, reserving a cell and queueing the download the first time it's seen
+  request(url: string, source: string = url): AtlasEntry {
+    const existing = this.entries.get(url);
+    if (existing) return existing;
+
+    const { page, cell } = this.allocateCell();
+    const entry: AtlasEntry = { page, cell, status: 'loading', source };
+    this.entries.set(url, entry);
+    this.queue.push(url);
+    this.pumpQueue();
+    return entry;
+  }
+
+  // Frees the cells of every photo that is no longer on screen
+  retainOnly(urls: Set<string>) {
+    for (const [url, entry] of this.entries.entries()) {
+      if (urls.has(url)) continue;
+      this.entries.delete(url);
+      this.freeCells.push({ page: entry.page, cell: entry.cell });
+    }
+    this.queue = this.queue.filter((url) => urls.has(url));
+  }
+
+  dispose() {
+    this.disposed = true;
+    this.queue = [];
+    this.entries.clear();
+    this.pages.forEach((page) => page.texture.dispose());
+    this.scratchTexture.dispose();
+  }
+
+  private allocateCell(): { page: number; cell: number } {
+    const reused = this.freeCells.pop();
+    if (reused) return reused;
+
+    const page = Math.floor(this.nextCell / this.cellsPerPage);
+    const cell = this.nextCell % this.cellsPerPage;
+    if (page >= this.pages.length) {
+      this.pages.push(this.createPage());
+    }
+    this.nextCell++;
+    return { page, cell };
+  }
+
+  private createPage(): AtlasPage {
+    console.log('🗺️ ATLAS: Allocating page', this.pages.length + 1, `(${this.pageSize}px, ${this.cellsPerPage} cells)`);
+
+    // Upload a blank page once, then release the canvas - cells are filled with sub-image copies
+    const canvas = document.createElement('canvas');
+    canvas.width = this.pageSize;
+    canvas.height = this.pageSize;
+
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.minFilter = THREE.LinearFilter;
+    texture.magFilter = THREE.LinearFilter;
+    texture.generateMipmaps = false;
+    this.renderer.initTexture(texture);
+
+    canvas.width = 1;
+    canvas.height = 1;
+    return { texture };
+  }
+
+  private pumpQueue() {
+    while (this.activeLoads < MAX_CONCURRENT_LOADS && this.queue.length > 0) {
+      const url = this.queue.shift()!;
+      this.activeLoads++;
+      this.loadIntoCell(url);
+    }
+  }
+
+  private loadIntoCell(url: string) {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+
+    const finish = () => {
+      this.activeLoads--;
+      this.pumpQueue();
+    };
+
+    image.onload = () => {
+      const entry = this.entries.get(url);
+      if (!this.disposed && entry) {
+        this.drawCell(image, entry);
+        entry.status = 'ready';
+      }
+      finish();
+    };
+    image.onerror = () => {
+      const entry = this.entries.get(url);
+      if (entry) entry.status = 'error';
+      console.error('❌ ATLAS: Failed to load photo:', url);
+      finish();
+    };
+    image.src = this.entries.get(url)?.source ?? url;
+  }
+
+  private drawCell(image: HTMLImageElement, entry: AtlasEntry) {
+    // Cover-crop the photo into the cell, like object-fit: cover
+    const scale = Math.max(ATLAS_CELL_WIDTH / image.naturalWidth, ATLAS_CELL_HEIGHT / image.naturalHeight);
+    const width = image.naturalWidth * scale;
+    const height = image.naturalHeight * scale;
+
+    this.scratchContext.clearRect(0, 0, ATLAS_CELL_WIDTH, ATLAS_CELL_HEIGHT);
+    this.scratchContext.drawImage(image, (ATLAS_CELL_WIDTH - width) / 2, (ATLAS_CELL_HEIGHT - height) / 2, width, height);
+
+    const column = entry.cell % this.columns;
+    const row = Math.floor(entry.cell / this.columns);
+    this.renderer.copyTextureToTexture(
+      new THREE.Vector2(column * ATLAS_CELL_WIDTH, row * ATLAS_CELL_HEIGHT),
+      this.scratchTexture,
+      this.pages[entry.page].texture
+    );
+  }
+}
@@ -0,0 +1,150 @@
+// src/components/three/QualityGovernor.tsx - Steps rendering quality down when frames miss their budget, and back up with headroom
+import React, { useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { textureManager } from '../../lib/textureManager';
+import { getDisplayRefreshMs, trackSceneRendering } from '../../lib/displayRefresh';
+
+export type QualityLevel = {
+  name: string;
+  maxPixelRatio: number;
+  volumetricSpotlights: boolean;
+  floorReflections: boolean;
+  fullResolutionTextures: boolean;
+  textureBudgetMB: number;
+};
+
+// Ordered from best to cheapest; each step gives up one more thing
+export const QUALITY_LEVELS: QualityLevel[] = [
+  { name: 'High', maxPixelRatio: 2, volumetricSpotlights: true, floorReflections: true, fullResolutionTextures: true, textureBudgetMB: 256 },
+  { name: 'Reduced Resolution', maxPixelRatio: 1.25, volumetricSpotlights: true, floorReflections: true, fullResolutionTextures: true, textureBudgetMB: 256 },
+  { name: 'No Spotlights', maxPixelRatio: 1.25, volumetricSpotlights: false, floorReflections: true, fullResolutionTextures: true, textureBudgetMB: 192 },
+  { name: 'No Reflections', maxPixelRatio: 1, volumetricSpotlights: false, floorReflections: false, fullResolutionTextures: true, textureBudgetMB: 192 },
+  { name: 'Thumbnails Only', maxPixelRatio: 1, volumetricSpotlights: false, floorReflections: false, fullResolutionTextures: false, textureBudgetMB: 96 },
+  { name: 'Minimum', maxPixelRatio: 0.75, volumetricSpotlights: false, floorReflections: false, fullResolutionTextures: false, textureBudgetMB: 64 },
+];
+
+export type FrameStats = {
+  fps: number;
+  frameMs: number;
+  pixelRatio: number;
+  drawCalls: number;
+  triangles: number;
+  gpuTextures: number;
+  gpuGeometries: number;
+};
+
+// Frames are held to 60fps unless the display was measured refreshing slower than LOW_REFRESH_HZ
+// before the scene started (some TVs run at 30Hz), in which case 60 can't be reached by any machine
+const TARGET_FPS = 60;
+const LOW_REFRESH_TARGET_FPS = 30;
+const LOW_REFRESH_HZ = 40;
+// Frames may take this much longer than the target so vsync jitter on a healthy machine isn't a miss
+const VSYNC_TOLERANCE = 1.1;
+const SAMPLE_SECONDS = 1;
+// Consecutive slow samples before stepping down
+const STEP_DOWN_SAMPLES = 3;
+// Healthy samples before trying the next level up; doubles each time a step up has to be undone
+const INITIAL_STEP_UP_SAMPLES = 10;
+const MAX_STEP_UP_SAMPLES = 120;
+// A step up that misses the budget within this many samples counts as failed
+const STEP_UP_PROBATION_SAMPLES = 5;
+
+const QualityGovernor: React.FC<{
+  enabled: boolean;
+  level: number;
+  onLevelChange: (level: number) => void;
+  statsRef: React.MutableRefObject<FrameStats | null>;
+}> = ({ enabled, level, onLevelChange, statsRef }) => {
+  const { gl } = useThree();
+  const setDpr = useThree((state) => state.setDpr);
+
+  const sampleRef = useRef({ frames: 0, elapsed: 0 });
+  const slowSamplesRef = useRef(0);
+  const healthySamplesRef = useRef(0);
+  const stepUpSamplesRef = useRef(INITIAL_STEP_UP_SAMPLES);
+  const samplesSinceStepUpRef = useRef<number | null>(null);
+
+  // Reset to full quality whenever the governor is switched off
+  useEffect(() => {
+    if (!enabled && level !== 0) onLevelChange(0);
+  }, [enabled, level, onLevelChange]);
+
+  useEffect(() => {
+    const quality = QUALITY_LEVELS[level] || QUALITY_LEVELS[0];
+    setDpr(Math.min(window.devicePixelRatio || 1, quality.maxPixelRatio));
+    textureManager.setBudget(quality.textureBudgetMB * 1024 * 1024);
+    textureManager.setFullResolutionAllowed(quality.fullResolutionTextures);
+
+    slowSamplesRef.current = 0;
+    healthySamplesRef.current = 0;
+    console.log('🎚️ QUALITY:', quality.name);
+  }, [level, setDpr]);
+
+  useEffect(() => {
+    const untrackScene = trackSceneRendering();
+    return () => {
+      untrackScene();
+      textureManager.setFullResolutionAllowed(true);
+    };
+  }, []);
+
+  useFrame((_, delta) => {
+    // Background tabs and debugger pauses produce huge deltas that say nothing about the GPU
+    if (delta > 0.5) return;
+
+    const sample = sampleRef.current;
+    sample.frames++;
+    sample.elapsed += delta;
+    if (sample.elapsed < SAMPLE_SECONDS) return;
+
+    const frameMs = (sample.elapsed / sample.frames) * 1000;
+    statsRef.current = {
+      fps: sample.frames / sample.elapsed,
+      frameMs,
+      pixelRatio: gl.getPixelRatio(),
+      drawCalls: gl.info.render.calls,
+      triangles: gl.info.render.triangles,
+      gpuTextures: gl.info.memory.textures,
+      gpuGeometries: gl.info.memory.geometries
+    };
+    sample.frames = 0;
+    sample.elapsed = 0;
+
+    if (!enabled) return;
+
+    const refreshMs = getDisplayRefreshMs();
+    const lowRefresh = refreshMs !== null && refreshMs > 1000 / LOW_REFRESH_HZ;
+    const targetMs = 1000 / (lowRefresh ? LOW_REFRESH_TARGET_FPS : TARGET_FPS);
+    const missedBudget = frameMs > targetMs * VSYNC_TOLERANCE;
+    if (samplesSinceStepUpRef.current !== null) samplesSinceStepUpRef.current++;
+
+    if (missedBudget) {
+      healthySamplesRef.current = 0;
+      slowSamplesRef.current++;
+
+      // The last step up didn't hold - wait longer before the next attempt
+      const failedStepUp = samplesSinceStepUpRef.current !== null &&
+        samplesSinceStepUpRef.current <= STEP_UP_PROBATION_SAMPLES;
+
+      if ((slowSamplesRef.current >= STEP_DOWN_SAMPLES || failedStepUp) && level < QUALITY_LEVELS.length - 1) {
+        if (failedStepUp) {
+          stepUpSamplesRef.current = Math.min(MAX_STEP_UP_SAMPLES, stepUpSamplesRef.current * 2);
+        }
+        samplesSinceStepUpRef.current = null;
+        onLevelChange(level + 1);
+      }
+    } else {
+      slowSamplesRef.current = 0;
+      healthySamplesRef.current++;
+
+      if (healthySamplesRef.current >= stepUpSamplesRef.current && level > 0) {
+        samplesSinceStepUpRef.current = 0;
+        onLevelChange(level - 1);
+      }
+    }
+  });
+
+  return null;
+};
+
+export default QualityGovernor;
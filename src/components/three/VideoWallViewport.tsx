@@ -0,0 +1,48 @@
+// src/components/three/VideoWallViewport.tsx - Renders only this screen's tile of the video wall's shared camera frustum
+import React, { useEffect } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { getVideoWallViewOffset, type VideoWallConfig } from '../../lib/videoWall';
+
+const VideoWallViewport: React.FC<{ config: VideoWallConfig }> = ({ config }) => {
+  const { camera, size } = useThree();
+  const getState = useThree((state) => state.get);
+
+  // The canvas resize resets the aspect to this screen alone, so the offset is re-applied every frame
+  useFrame(() => {
+    const perspective = camera as THREE.PerspectiveCamera;
+    if (!perspective.isPerspectiveCamera) return;
+
+    const offset = getVideoWallViewOffset(config, size.width, size.height);
+    const view = perspective.view;
+    if (
+      view?.enabled &&
+      view.fullWidth === offset.fullWidth &&
+      view.fullHeight === offset.fullHeight &&
+      view.offsetX === offset.x &&
+      view.offsetY === offset.y &&
+      perspective.aspect === offset.fullWidth / offset.fullHeight
+    ) {
+      return;
+    }
+
+    perspective.setViewOffset(offset.fullWidth, offset.fullHeight, offset.x, offset.y, offset.width, offset.height);
+  });
+
+  useEffect(() => {
+    console.log('🧱 VIDEO WALL: Rendering tile', config);
+    return () => {
+      const perspective = camera as THREE.PerspectiveCamera;
+      if (perspective.isPerspectiveCamera) {
+        const current = getState().size;
+        perspective.clearViewOffset();
+        perspective.aspect = current.width / current.height;
+        perspective.updateProjectionMatrix();
+      }
+    };
+  }, [camera, config, getState]);
+
+  return null;
+};
+
+export default VideoWallViewport;
@@ -1,4 +1,5 @@
-import { type SceneSettings } from '../../../store/sceneStore';
+import { type SceneSettings, type PatternParamValue } from '../../../store/sceneStore';
+import { PatternRegistry } from './PatternRegistry';
 
 export type Photo = {
   id: string;
@@ -29,4 +30,14 @@ export abstract class BasePattern {
   }
 
   abstract generatePositions(time: number): PatternState;
+
+  // Reads a parameter from the pattern's settings block, falling back to its registered default
+  protected getParam(patternId: string, key: string): PatternParamValue | undefined {
+    return this.settings.patterns?.[patternId]?.[key] ?? PatternRegistry.get(patternId)?.defaults[key];
+  }
+
+  protected getNumberParam(patternId: string, key: string, fallback: number): number {
+    const value = Number(this.getParam(patternId, key));
+    return Number.isFinite(value) ? value : fallback;
+  }
 }
\ No newline at end of file
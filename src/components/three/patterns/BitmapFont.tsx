@@ -0,0 +1,96 @@
+// src/components/three/patterns/BitmapFont.tsx - Built-in 5x7 pixel font so text renders identically on every screen
+import { type MaskData } from './MaskLayout';
+
+export const GLYPH_WIDTH = 5;
+export const GLYPH_HEIGHT = 7;
+const LETTER_SPACING = 1;
+const LINE_SPACING = 2;
+
+// Each glyph is 7 rows of 5 columns, '#' = filled
+const GLYPHS: Record<string, string[]> = {
+  A: [' ### ', '#   #', '#   #', '#####', '#   #', '#   #', '#   #'],
+  B: ['#### ', '#   #', '#   #', '#### ', '#   #', '#   #', '#### '],
+  C: [' ### ', '#   #', '#    ', '#    ', '#    ', '#   #', ' ### '],
+  D: ['#### ', '#   #', '#   #', '#   #', '#   #', '#   #', '#### '],
+  E: ['#####', '#    ', '#    ', '#### ', '#    ', '#    ', '#####'],
+  F: ['#####', '#    ', '#    ', '#### ', '#    ', '#    ', '#    '],
+  G: [' ### ', '#   #', '#    ', '# ###', '#   #', '#   #', ' ####'],
+  H: ['#   #', '#   #', '#   #', '#####', '#   #', '#   #', '#   #'],
+  I: ['#####', '  #  ', '  #  ', '  #  ', '  #  ', '  #  ', '#####'],
+  J: ['  ###', '   # ', '   # ', '   # ', '   # ', '#  # ', ' ##  '],
+  K: ['#   #', '#  # ', '# #  ', '##   ', '# #  ', '#  # ', '#   #'],
+  L: ['#    ', '#    ', '#    ', '#    ', '#    ', '#    ', '#####'],
+  M: ['#   #', '## ##', '# # #', '# # #', '#   #', '#   #', '#   #'],
+  N: ['#   #', '#   #', '##  #', '# # #', '#  ##', '#   #', '#   #'],
+  O: [' ### ', '#   #', '#   #', '#   #', '#   #', '#   #', ' ### '],
+  P: ['#### ', '#   #', '#   #', '#### ', '#    ', '#    ', '#    '],
+  Q: [' ### ', '#   #', '#   #', '#   #', '# # #', '#  # ', ' ## #'],
+  R: ['#### ', '#   #', '#   #', '#### ', '# #  ', '#  # ', '#   #'],
+  S: [' ####', '#    ', '#    ', ' ### ', '    #', '    #', '#### '],
+  T: ['#####', '  #  ', '  #  ', '  #  ', '  #  ', '  #  ', '  #  '],
+  U: ['#   #', '#   #', '#   #', '#   #', '#   #', '#   #', ' ### '],
+  V: ['#   #', '#   #', '#   #', '#   #', '#   #', ' # # ', '  #  '],
+  W: ['#   #', '#   #', '#   #', '# # #', '# # #', '# # #', ' # # '],
+  X: ['#   #', '#   #', ' # # ', '  #  ', ' # # ', '#   #', '#   #'],
+  Y: ['#   #', '#   #', ' # # ', '  #  ', '  #  ', '  #  ', '  #  '],
+  Z: ['#####', '    #', '   # ', '  #  ', ' #   ', '#    ', '#####'],
+  '0': [' ### ', '#   #', '#  ##', '# # #', '##  #', '#   #', ' ### '],
+  '1': ['  #  ', ' ##  ', '  #  ', '  #  ', '  #  ', '  #  ', ' ### '],
+  '2': [' ### ', '#   #', '    #', '   # ', '  #  ', ' #   ', '#####'],
+  '3': ['#####', '   # ', '  #  ', '   # ', '    #', '#   #', ' ### '],
+  '4': ['   # ', '  ## ', ' # # ', '#  # ', '#####', '   # ', '   # '],
+  '5': ['#####', '#    ', '#### ', '    #', '    #', '#   #', ' ### '],
+  '6': ['  ## ', ' #   ', '#    ', '#### ', '#   #', '#   #', ' ### '],
+  '7': ['#####', '    #', '   # ', '  #  ', ' #   ', ' #   ', ' #   '],
+  '8': [' ### ', '#   #', '#   #', ' ### ', '#   #', '#   #', ' ### '],
+  '9': [' ### ', '#   #', '#   #', ' ####', '    #', '   # ', ' ##  '],
+  ' ': ['     ', '     ', '     ', '     ', '     ', '     ', '     '],
+  '!': ['  #  ', '  #  ', '  #  ', '  #  ', '  #  ', '     ', '  #  '],
+  '?': [' ### ', '#   #', '    #', '   # ', '  #  ', '     ', '  #  '],
+  '.': ['     ', '     ', '     ', '     ', '     ', ' ##  ', ' ##  '],
+  ',': ['     ', '     ', '     ', '     ', ' ##  ', '  #  ', ' #   '],
+  "'": ['  #  ', '  #  ', ' #   ', '     ', '     ', '     ', '     '],
+  '-': ['     ', '     ', '     ', '#####', '     ', '     ', '     '],
+  '+': ['     ', '  #  ', '  #  ', '#####', '  #  ', '  #  ', '     '],
+  ':': ['     ', ' ##  ', ' ##  ', '     ', ' ##  ', ' ##  ', '     '],
+  '/': ['    #', '    #', '   # ', '  #  ', ' #   ', '#    ', '#    '],
+  '#': [' # # ', ' # # ', '#####', ' # # ', '#####', ' # # ', ' # # '],
+  '@': [' ### ', '#   #', '# ###', '# # #', '# ###', '#    ', ' ####'],
+  '&': [' ##  ', '#  # ', '# #  ', ' #   ', '# # #', '#  # ', ' ## #'],
+  '♥': ['     ', ' # # ', '#####', '#####', ' ### ', '  #  ', '     '],
+};
+
+// Characters outside the font are shown as a hollow box so typos are visible on the wall
+const MISSING_GLYPH = ['#####', '#   #', '#   #', '#   #', '#   #', '#   #', '#####'];
+
+// Renders text to a 1-bit mask; '|' starts a new line. Bold thickens every stroke by one pixel.
+export const renderTextMask = (text: string, bold: boolean): MaskData => {
+  const lines = text.toUpperCase().split('|').map((line) => line.trim());
+  const glyphWidth = GLYPH_WIDTH + (bold ? 1 : 0);
+  const lineWidths = lines.map((line) => Math.max(0, [...line].length * (glyphWidth + LETTER_SPACING) - LETTER_SPACING));
+  const width = Math.max(1, ...lineWidths);
+  const height = Math.max(1, lines.length * (GLYPH_HEIGHT + LINE_SPACING) - LINE_SPACING);
+  const filled = new Uint8Array(width * height);
+
+  lines.forEach((line, lineIndex) => {
+    // Center each line horizontally
+    const offsetX = Math.floor((width - lineWidths[lineIndex]) / 2);
+    const offsetY = lineIndex * (GLYPH_HEIGHT + LINE_SPACING);
+
+    [...line].forEach((char, charIndex) => {
+      const glyph = GLYPHS[char] || MISSING_GLYPH;
+      const glyphX = offsetX + charIndex * (glyphWidth + LETTER_SPACING);
+
+      for (let row = 0; row < GLYPH_HEIGHT; row++) {
+        for (let col = 0; col < GLYPH_WIDTH; col++) {
+          if (glyph[row][col] !== '#') continue;
+          const y = offsetY + row;
+          filled[y * width + glyphX + col] = 1;
+          if (bold) filled[y * width + glyphX + col + 1] = 1;
+        }
+      }
+    });
+  });
+
+  return { width, height, filled };
+};
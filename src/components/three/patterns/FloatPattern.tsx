@@ -1,5 +1,7 @@
 // src/components/three/patterns/FloatPattern.tsx - UPDATED: Higher float height for better teleport
+import { MAX_PHOTO_COUNT } from '../../../store/sceneStore';
 import { BasePattern, type PatternState, type Position } from './BasePattern';
+import { PatternRegistry } from './PatternRegistry';
 
 export class FloatPattern extends BasePattern {
   // CRITICAL: Use dynamic base positions that adjust to floor size
@@ -56,7 +58,7 @@ export class FloatPattern extends BasePattern {
     const positions: Position[] = [];
     const rotations: [number, number, number][] = [];
     
-    const totalPhotos = Math.min(this.settings.photoCount, 500);
+    const totalPhotos = Math.min(this.settings.photoCount, MAX_PHOTO_COUNT);
     
     // Use dynamic floor size from settings
     const floorSize = this.settings.floorSize || 200;
@@ -64,9 +66,12 @@ export class FloatPattern extends BasePattern {
     // Get base positions that adapt to current floor size
     const basePositions = this.generateDynamicBasePositions(totalPhotos, floorSize);
     
+    // Fraction of the floor the photos are scattered across
+    const spread = Math.min(Math.max(this.getNumberParam('float', 'spread', 100), 0), 100) / 100;
+    
     // UPDATED: Animation parameters - extremely high float height for completely out-of-view teleport
     const riseSpeed = 8; // Units per second rising speed
-    const maxHeight = 300; // MASSIVELY INCREASED: Way higher before recycling (was 60, then 150)
+    const maxHeight = this.getNumberParam('float', 'height', 300); // Way higher than the camera before recycling
     const startHeight = -40; // DEEPER: Start even deeper below the floor (was -20, then -30)
     const cycleHeight = maxHeight - startHeight; // Total distance to travel (now 340 units!)
     
@@ -98,12 +103,12 @@ export class FloatPattern extends BasePattern {
       }
       
       // Add horizontal position with gentle drift
-      let x = basePos.x;
-      let z = basePos.z;
+      let x = basePos.x * spread;
+      let z = basePos.z * spread;
       
       if (this.settings.animationEnabled) {
         // Gentle horizontal drift as photos rise - scale with floor size
-        const driftStrength = Math.max(1.5, floorSize * 0.01); // Drift scales with floor size
+        const driftStrength = floorSize * this.getNumberParam('float', 'drift', 0.01);
         const driftSpeed = 0.3;
         x += Math.sin(animationTime * driftSpeed + i * 0.5) * driftStrength;
         z += Math.cos(animationTime * driftSpeed * 0.8 + i * 0.7) * driftStrength;
@@ -128,4 +133,43 @@ export class FloatPattern extends BasePattern {
 
     return { positions, rotations };
   }
-}
\ No newline at end of file
+}
+
+PatternRegistry.register({
+  id: 'float',
+  name: 'Float',
+  order: 1,
+  defaults: { height: 300, spread: 100, drift: 0.01 },
+  schema: [
+    {
+      key: 'height',
+      label: 'Float Height',
+      type: 'range',
+      min: 50,
+      max: 500,
+      step: 10,
+      unit: 'units',
+      description: 'How high photos rise before recycling back below the floor'
+    },
+    {
+      key: 'spread',
+      label: 'Spread',
+      type: 'range',
+      min: 10,
+      max: 100,
+      step: 5,
+      unit: '%',
+      description: 'How much of the floor the photos are scattered across'
+    },
+    {
+      key: 'drift',
+      label: 'Drift',
+      type: 'range',
+      min: 0,
+      max: 0.05,
+      step: 0.005,
+      description: 'Sideways sway while rising, relative to floor size'
+    }
+  ],
+  create: (settings, photos) => new FloatPattern(settings, photos),
+});
@@ -1,20 +1,22 @@
 // src/components/three/patterns/GridPattern.tsx - FIXED: True edge-to-edge solid wall
+import { MAX_PHOTO_COUNT } from '../../../store/sceneStore';
 import { BasePattern, type PatternState, type Position } from './BasePattern';
+import { PatternRegistry } from './PatternRegistry';
 
 export class GridPattern extends BasePattern {
   generatePositions(time: number): PatternState {
     const positions: Position[] = [];
     const rotations: [number, number, number][] = [];
     
-    const totalPhotos = Math.min(this.settings.photoCount, 500);
+    const totalPhotos = Math.min(this.settings.photoCount, MAX_PHOTO_COUNT);
     
     // Calculate grid dimensions with aspect ratio
-    const aspectRatio = this.settings.gridAspectRatio || 1.0;
+    const aspectRatio = this.getNumberParam('grid', 'aspectRatio', this.settings.gridAspectRatio) || 1.0;
     const columns = Math.ceil(Math.sqrt(totalPhotos * aspectRatio));
     const rows = Math.ceil(totalPhotos / columns);
     
     const photoSize = this.settings.photoSize || 4.0;
-    const spacingPercentage = this.settings.photoSpacing || 0; // 0 to 1 (0% to 100%)
+    const spacingPercentage = this.getNumberParam('grid', 'spacing', this.settings.photoSpacing) || 0; // 0 to 1 (0% to 100%)
     
     // FIXED: True edge-to-edge when spacing is 0, equal spacing when spacing > 0
     let horizontalSpacing, verticalSpacing;
@@ -33,7 +35,7 @@ export class GridPattern extends BasePattern {
     }
     
     // Wall positioning
-    const wallHeight = this.settings.wallHeight || 0;
+    const wallHeight = this.getNumberParam('grid', 'wallHeight', this.settings.wallHeight) || 0;
     
     // Calculate total wall dimensions
     const totalWallWidth = (columns - 1) * horizontalSpacing;
@@ -89,4 +91,15 @@ export class GridPattern extends BasePattern {
     
     return { positions, rotations };
   }
-}
\ No newline at end of file
+}
+
+PatternRegistry.register({
+  id: 'grid',
+  name: 'Grid Wall',
+  order: 0,
+  // No defaults: collages saved before the grid block existed fall back to the top-level wall settings
+  defaults: {},
+  // Edited through the dedicated Grid Wall section, which keeps the top-level settings in sync
+  schema: [],
+  create: (settings, photos) => new GridPattern(settings, photos),
+});
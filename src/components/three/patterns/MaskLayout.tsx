@@ -0,0 +1,109 @@
+// src/components/three/patterns/MaskLayout.tsx - Shared helpers for patterns that place slots on a bitmap shape
+
+export type MaskData = {
+  width: number;
+  height: number;
+  // 1 where the shape is filled, row-major from the top-left pixel
+  filled: Uint8Array;
+};
+
+export type MaskMode = 'alpha' | 'dark' | 'light';
+
+export type MaskCell = {
+  column: number;
+  // Counted from the bottom so patterns can build upward from the wall height
+  row: number;
+};
+
+export type MaskSlotLayout = {
+  cells: MaskCell[];
+  columns: number;
+  rows: number;
+};
+
+// Largest canvas edge used for sampling - plenty for a few thousand slots and cheap to scan
+export const MASK_SAMPLE_SIZE = 512;
+
+// Converts canvas pixels into a filled/empty mask
+export const maskFromImageData = (imageData: ImageData, mode: MaskMode, threshold: number): MaskData => {
+  const { width, height, data } = imageData;
+  const filled = new Uint8Array(width * height);
+  const cutoff = Math.min(Math.max(threshold, 0), 1) * 255;
+
+  for (let i = 0; i < width * height; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    const a = data[i * 4 + 3];
+    const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+    let isFilled: boolean;
+    if (mode === 'dark') {
+      isFilled = a > 127 && luminance < cutoff;
+    } else if (mode === 'light') {
+      isFilled = a > 127 && luminance > cutoff;
+    } else {
+      isFilled = a > cutoff;
+    }
+    filled[i] = isFilled ? 1 : 0;
+  }
+
+  return { width, height, filled };
+};
+
+// Filled cells when the mask is divided into cells of the given pixel size, sampled at each cell center
+export const collectCells = (mask: MaskData, cellWidth: number, cellHeight: number): MaskSlotLayout => {
+  const columns = Math.max(1, Math.floor(mask.width / cellWidth));
+  const rows = Math.max(1, Math.floor(mask.height / cellHeight));
+  const cells: MaskCell[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    const y = Math.min(mask.height - 1, Math.floor((row + 0.5) * cellHeight));
+    for (let column = 0; column < columns; column++) {
+      const x = Math.min(mask.width - 1, Math.floor((column + 0.5) * cellWidth));
+      if (mask.filled[y * mask.width + x]) {
+        cells.push({ column, row: rows - 1 - row });
+      }
+    }
+  }
+
+  return { cells, columns, rows };
+};
+
+// Picks the coarsest cell size that still yields at least slotCount filled cells,
+// then thins the result evenly so every slot lands inside the shape.
+// cellAspect is cell height / cell width, matching the photo proportions.
+export const layoutSlotsOnMask = (mask: MaskData, slotCount: number, cellAspect: number): MaskSlotLayout => {
+  if (slotCount <= 0) return { cells: [], columns: 0, rows: 0 };
+
+  let low = 1;
+  let high = Math.max(mask.width, mask.height / cellAspect);
+  let best = collectCells(mask, low, low * cellAspect);
+
+  if (best.cells.length >= slotCount) {
+    for (let i = 0; i < 20; i++) {
+      const mid = (low + high) / 2;
+      const candidate = collectCells(mask, mid, mid * cellAspect);
+      if (candidate.cells.length >= slotCount) {
+        best = candidate;
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+  }
+
+  return thinCells(best, slotCount);
+};
+
+// Drops cells evenly across the layout until at most slotCount remain
+export const thinCells = (layout: MaskSlotLayout, slotCount: number): MaskSlotLayout => {
+  if (layout.cells.length <= slotCount) return layout;
+
+  const step = layout.cells.length / slotCount;
+  const cells: MaskCell[] = [];
+  for (let i = 0; i < slotCount; i++) {
+    cells.push(layout.cells[Math.floor(i * step)]);
+  }
+  return { cells, columns: layout.columns, rows: layout.rows };
+};
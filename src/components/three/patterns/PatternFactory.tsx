@@ -1,23 +1,31 @@
 import { type SceneSettings } from '../../../store/sceneStore';
 import { type Photo } from './BasePattern';
-import { FloatPattern } from './FloatPattern';
-import { GridPattern } from './GridPattern';
-import { SpiralPattern } from './SpiralPattern';
-import { WavePattern } from './WavePattern';
+import { DEFAULT_PATTERN_ID, PatternRegistry, type PatternDefinition } from './PatternRegistry';
+
+// Every *Pattern module registers itself on import, so new layouts only need a new file here
+import.meta.glob(['./*Pattern.tsx', '!./BasePattern.tsx'], { eager: true });
 
 export class PatternFactory {
+  // Patterns are created every frame, so only warn once per unknown type
+  private static warnedTypes = new Set<string>();
+
   static createPattern(type: string, settings: SceneSettings, photos: Photo[]) {
-    switch (type) {
-      case 'float':
-        return new FloatPattern(settings, photos);
-      case 'grid':
-        return new GridPattern(settings, photos);
-      case 'spiral':
-        return new SpiralPattern(settings, photos);
-      case 'wave':
-        return new WavePattern(settings, photos);
-      default:
-        return new GridPattern(settings, photos);
+    const definition = PatternRegistry.get(type);
+    if (!definition) {
+      if (!PatternFactory.warnedTypes.has(type)) {
+        PatternFactory.warnedTypes.add(type);
+        console.warn(`⚠️ PATTERN: Unknown pattern "${type}", falling back to "${DEFAULT_PATTERN_ID}"`);
+      }
+      return PatternRegistry.get(DEFAULT_PATTERN_ID)!.create(settings, photos);
     }
+    return definition.create(settings, photos);
+  }
+
+  static getPatterns(): PatternDefinition[] {
+    return PatternRegistry.list();
+  }
+
+  static getPattern(type: string): PatternDefinition | undefined {
+    return PatternRegistry.get(type);
   }
-}
\ No newline at end of file
+}
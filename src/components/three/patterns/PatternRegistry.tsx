@@ -0,0 +1,103 @@
+// src/components/three/patterns/PatternRegistry.tsx - Central registry of available photo patterns
+import { type SceneSettings, type PatternParams, type PatternParamValue } from '../../../store/sceneStore';
+import { type BasePattern, type Photo } from './BasePattern';
+
+// Describes a single editable pattern parameter so the settings panel can render a control for it
+export type PatternParamSchema =
+  | {
+      key: string;
+      label: string;
+      type: 'range';
+      min: number;
+      max: number;
+      step: number;
+      unit?: string;
+      description?: string;
+      // Top-level setting the pattern reads while its own block leaves this parameter unset
+      fallback?: keyof SceneSettings;
+    }
+  | {
+      key: string;
+      label: string;
+      type: 'toggle';
+      description?: string;
+    }
+  | {
+      key: string;
+      label: string;
+      type: 'select';
+      options: { value: string; label: string }[];
+      description?: string;
+    }
+  | {
+      key: string;
+      label: string;
+      type: 'text';
+      placeholder?: string;
+      description?: string;
+    }
+  | {
+      // Stored as a public URL after uploading through the collage store
+      key: string;
+      label: string;
+      type: 'image';
+      description?: string;
+    };
+
+export interface PatternDefinition {
+  id: string;
+  name: string;
+  // Lower numbers are listed first in the pattern picker
+  order?: number;
+  defaults: Record<string, PatternParamValue>;
+  schema: PatternParamSchema[];
+  create: (settings: SceneSettings, photos: Photo[]) => BasePattern;
+}
+
+export const DEFAULT_PATTERN_ID = 'grid';
+
+export class PatternRegistry {
+  private static definitions = new Map<string, PatternDefinition>();
+
+  static register(definition: PatternDefinition) {
+    if (PatternRegistry.definitions.has(definition.id)) {
+      console.warn(`⚠️ PATTERN: "${definition.id}" is already registered, replacing it`);
+    }
+    PatternRegistry.definitions.set(definition.id, definition);
+  }
+
+  static has(id: string): boolean {
+    return PatternRegistry.definitions.has(id);
+  }
+
+  static get(id: string): PatternDefinition | undefined {
+    return PatternRegistry.definitions.get(id);
+  }
+
+  static list(): PatternDefinition[] {
+    return [...PatternRegistry.definitions.values()].sort(
+      (a, b) => (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER)
+    );
+  }
+
+  // Registered defaults overlaid with whatever the collage has stored for this pattern
+  static resolveParams(id: string, settings: SceneSettings): PatternParams {
+    const definition = PatternRegistry.get(id);
+    return {
+      ...(definition?.defaults || {}),
+      ...(settings.patterns?.[id] || {}),
+      enabled: settings.animationPattern === id,
+    };
+  }
+
+  // A parameter's effective value, including the top-level setting it falls back to when unset
+  static resolveParamValue(
+    param: PatternParamSchema,
+    params: PatternParams,
+    settings: SceneSettings
+  ): PatternParamValue | undefined {
+    const value = params[param.key];
+    if (value !== undefined || param.type !== 'range' || !param.fallback) return value;
+    return Number(settings[param.fallback]);
+  }
+}
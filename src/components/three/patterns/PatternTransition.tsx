@@ -0,0 +1,129 @@
+// src/components/three/patterns/PatternTransition.tsx - Morphs slot positions between two patterns
+import { type SceneSettings } from '../../../store/sceneStore';
+import { type PatternState, type Position } from './BasePattern';
+
+export type TransitionEasing = SceneSettings['patternTransitionEasing'];
+export type TransitionStagger = SceneSettings['patternTransitionStagger'];
+
+export const TRANSITION_EASINGS: Record<TransitionEasing, (t: number) => number> = {
+  linear: (t) => t,
+  easeInOut: (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  easeOut: (t) => 1 - Math.pow(1 - t, 3),
+  easeOutBack: (t) => {
+    const c1 = 1.70158;
+    const c3 = c1 + 1;
+    return 1 + c3 * Math.pow(t - 1, 3) + c1 * Math.pow(t - 1, 2);
+  },
+};
+
+// Portion of the transition spent waiting for the last slot to start when staggered
+const STAGGER_SPREAD = 0.6;
+
+// Returns a 0..1 start delay per slot, ordered by the chosen stagger mode
+const computeStaggerDelays = (stagger: TransitionStagger, targets: Position[]): number[] => {
+  if (stagger === 'none' || targets.length === 0) {
+    return targets.map(() => 0);
+  }
+
+  if (stagger === 'random') {
+    // Deterministic per-slot noise so every screen staggers identically
+    return targets.map((_, i) => Math.abs(Math.sin(i * 12.9898 + 78.233)) % 1);
+  }
+
+  if (stagger === 'rows') {
+    // Sweep from the top row down
+    const ys = targets.map(([, y]) => y);
+    const maxY = Math.max(...ys);
+    const minY = Math.min(...ys);
+    const range = maxY - minY || 1;
+    return ys.map((y) => (maxY - y) / range);
+  }
+
+  // Ripple outward from the center of the destination layout
+  const center = targets.reduce(
+    (acc, [x, y, z]) => [acc[0] + x / targets.length, acc[1] + y / targets.length, acc[2] + z / targets.length],
+    [0, 0, 0]
+  );
+  const distances = targets.map(([x, y, z]) => Math.hypot(x - center[0], y - center[1], z - center[2]));
+  const maxDistance = Math.max(...distances) || 1;
+  return distances.map((d) => d / maxDistance);
+};
+
+// Interpolates an angle along the shortest arc
+const lerpAngle = (from: number, to: number, t: number) => {
+  let delta = (to - from) % (Math.PI * 2);
+  if (delta > Math.PI) delta -= Math.PI * 2;
+  if (delta < -Math.PI) delta += Math.PI * 2;
+  return from + delta * t;
+};
+
+export class PatternTransition {
+  readonly fromPattern: string;
+  readonly toPattern: string;
+  // Frozen starting layout, used when a switch interrupts a transition already in progress
+  readonly snapshot: PatternState | null;
+  private startTime: number;
+  private duration: number;
+  private easing: (t: number) => number;
+  private stagger: TransitionStagger;
+  private delays: number[] | null = null;
+
+  constructor(
+    fromPattern: string,
+    toPattern: string,
+    startTime: number,
+    settings: Pick<SceneSettings, 'patternTransitionDuration' | 'patternTransitionEasing' | 'patternTransitionStagger'>,
+    snapshot: PatternState | null = null
+  ) {
+    this.fromPattern = fromPattern;
+    this.toPattern = toPattern;
+    this.snapshot = snapshot;
+    this.startTime = startTime;
+    this.duration = Math.max(0, settings.patternTransitionDuration ?? 2);
+    this.easing = TRANSITION_EASINGS[settings.patternTransitionEasing] || TRANSITION_EASINGS.easeInOut;
+    this.stagger = settings.patternTransitionStagger || 'none';
+  }
+
+  isComplete(clockTime: number): boolean {
+    return this.duration === 0 || clockTime - this.startTime >= this.duration;
+  }
+
+  // Blends the outgoing and incoming pattern states for the current clock time
+  blend(from: PatternState, to: PatternState, clockTime: number): PatternState {
+    if (this.isComplete(clockTime)) return to;
+
+    const progress = Math.min(Math.max((clockTime - this.startTime) / this.duration, 0), 1);
+    const spread = this.stagger === 'none' ? 0 : STAGGER_SPREAD;
+
+    // Delays are fixed from the destination layout when the transition first runs
+    if (!this.delays || this.delays.length !== to.positions.length) {
+      this.delays = computeStaggerDelays(this.stagger, to.positions);
+    }
+
+    const positions: Position[] = [];
+    const rotations: [number, number, number][] = [];
+
+    for (let i = 0; i < to.positions.length; i++) {
+      const slotProgress = Math.min(Math.max((progress - this.delays[i] * spread) / (1 - spread), 0), 1);
+      const t = this.easing(slotProgress);
+
+      const start = from.positions[i] || to.positions[i];
+      const end = to.positions[i];
+      positions.push([
+        start[0] + (end[0] - start[0]) * t,
+        start[1] + (end[1] - start[1]) * t,
+        start[2] + (end[2] - start[2]) * t,
+      ]);
+
+      const startRotation = from.rotations?.[i] || [0, 0, 0];
+      const endRotation = to.rotations?.[i] || [0, 0, 0];
+      rotations.push([
+        lerpAngle(startRotation[0], endRotation[0], t),
+        lerpAngle(startRotation[1], endRotation[1], t),
+        lerpAngle(startRotation[2], endRotation[2], t),
+      ]);
+    }
+
+    return { positions, rotations };
+  }
+}
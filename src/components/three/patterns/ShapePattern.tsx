@@ -0,0 +1,178 @@
+// src/components/three/patterns/ShapePattern.tsx - Arranges slots into the silhouette of an uploaded mask image
+import { MAX_PHOTO_COUNT } from '../../../store/sceneStore';
+import { BasePattern, type PatternState, type Position } from './BasePattern';
+import { GridPattern } from './GridPattern';
+import { PatternRegistry } from './PatternRegistry';
+import {
+  MASK_SAMPLE_SIZE,
+  layoutSlotsOnMask,
+  maskFromImageData,
+  type MaskData,
+  type MaskMode,
+  type MaskSlotLayout
+} from './MaskLayout';
+
+type MaskEntry =
+  | { status: 'loading' }
+  | { status: 'error' }
+  | { status: 'ready'; image: HTMLImageElement; masks: Map<string, MaskData> };
+
+// Photos are 9:16 portrait planes
+const PHOTO_ASPECT = 16 / 9;
+// Extra slots that don't fit the shape stack behind it in layers this far apart
+const OVERFLOW_LAYER_DEPTH = 2;
+
+export class ShapePattern extends BasePattern {
+  // Images are shared across pattern instances since a new pattern is created every frame
+  private static images = new Map<string, MaskEntry>();
+  private static layouts = new Map<string, MaskSlotLayout>();
+
+  private static loadImage(url: string) {
+    ShapePattern.images.set(url, { status: 'loading' });
+
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => {
+      console.log('🧩 SHAPE: Mask image loaded:', url, image.naturalWidth, 'x', image.naturalHeight);
+      ShapePattern.images.set(url, { status: 'ready', image, masks: new Map() });
+    };
+    image.onerror = () => {
+      console.error('❌ SHAPE: Failed to load mask image:', url);
+      ShapePattern.images.set(url, { status: 'error' });
+    };
+    image.src = url;
+  }
+
+  private static getMask(url: string, mode: MaskMode, threshold: number): MaskData | null {
+    const entry = ShapePattern.images.get(url);
+    if (!entry) {
+      ShapePattern.loadImage(url);
+      return null;
+    }
+    if (entry.status !== 'ready') return null;
+
+    const maskKey = `${mode}-${threshold}`;
+    const cached = entry.masks.get(maskKey);
+    if (cached) return cached;
+
+    const scale = Math.min(1, MASK_SAMPLE_SIZE / Math.max(entry.image.naturalWidth, entry.image.naturalHeight));
+    const width = Math.max(1, Math.round(entry.image.naturalWidth * scale));
+    const height = Math.max(1, Math.round(entry.image.naturalHeight * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+
+    ctx.drawImage(entry.image, 0, 0, width, height);
+    const mask = maskFromImageData(ctx.getImageData(0, 0, width, height), mode, threshold);
+    entry.masks.set(maskKey, mask);
+    return mask;
+  }
+
+  generatePositions(time: number): PatternState {
+    const maskUrl = String(this.getParam('shape', 'maskUrl') || '');
+    const mode = (String(this.getParam('shape', 'maskMode') || 'alpha')) as MaskMode;
+    const threshold = this.getNumberParam('shape', 'threshold', 0.5);
+    const mask = maskUrl ? ShapePattern.getMask(maskUrl, mode, threshold) : null;
+
+    // Until a mask is uploaded and decoded, show the regular wall so the scene isn't empty
+    if (!mask) {
+      return new GridPattern(this.settings, this.photos).generatePositions(time);
+    }
+
+    const positions: Position[] = [];
+    const rotations: [number, number, number][] = [];
+
+    const totalPhotos = Math.min(this.settings.photoCount, MAX_PHOTO_COUNT);
+    const layoutKey = `${maskUrl}|${mode}|${threshold}|${totalPhotos}`;
+    let layout = ShapePattern.layouts.get(layoutKey);
+    if (!layout) {
+      // Photo count sliders can generate many layouts; keep the cache small
+      if (ShapePattern.layouts.size > 20) ShapePattern.layouts.clear();
+      layout = layoutSlotsOnMask(mask, totalPhotos, PHOTO_ASPECT);
+      ShapePattern.layouts.set(layoutKey, layout);
+      console.log('🧩 SHAPE: Laid out', layout.cells.length, 'cells on a', layout.columns, 'x', layout.rows, 'grid');
+    }
+
+    const photoSize = this.settings.photoSize || 4.0;
+    const gap = this.getNumberParam('shape', 'spacing', 0.05);
+    const horizontalSpacing = photoSize * (9 / 16) * (1 + gap);
+    const verticalSpacing = photoSize * (1 + gap);
+    const wallHeight = this.settings.wallHeight || 0;
+    const totalWidth = (layout.columns - 1) * horizontalSpacing;
+
+    const speed = this.settings.animationSpeed / 100;
+    const animationTime = this.settings.animationEnabled ? time * speed : 0;
+
+    for (let i = 0; i < totalPhotos; i++) {
+      if (layout.cells.length === 0) {
+        positions.push([0, wallHeight, 0]);
+        rotations.push([0, 0, 0]);
+        continue;
+      }
+
+      const cell = layout.cells[i % layout.cells.length];
+      const layer = Math.floor(i / layout.cells.length);
+
+      const x = cell.column * horizontalSpacing - totalWidth / 2;
+      const y = wallHeight + cell.row * verticalSpacing;
+      let z = -layer * OVERFLOW_LAYER_DEPTH;
+
+      // Gentle breathing so the logo reads as alive without breaking the silhouette
+      if (this.settings.animationEnabled) {
+        z += Math.sin(animationTime * 0.8 + cell.column * 0.25 + cell.row * 0.25) * photoSize * 0.1;
+      }
+
+      positions.push([x, y, z]);
+      rotations.push([0, 0, 0]);
+    }
+
+    return { positions, rotations };
+  }
+}
+
+PatternRegistry.register({
+  id: 'shape',
+  name: 'Logo Shape',
+  order: 5,
+  defaults: { maskUrl: '', maskMode: 'alpha', threshold: 0.5, spacing: 0.05 },
+  schema: [
+    {
+      key: 'maskUrl',
+      label: 'Mask Image',
+      type: 'image',
+      description: 'Upload a logo or monogram. Transparent PNGs work best.'
+    },
+    {
+      key: 'maskMode',
+      label: 'Shape Source',
+      type: 'select',
+      options: [
+        { value: 'alpha', label: 'Opaque pixels (transparent PNG)' },
+        { value: 'dark', label: 'Dark pixels (logo on white)' },
+        { value: 'light', label: 'Light pixels (logo on black)' }
+      ]
+    },
+    {
+      key: 'threshold',
+      label: 'Threshold',
+      type: 'range',
+      min: 0.05,
+      max: 0.95,
+      step: 0.05,
+      description: 'Cutoff used to decide which pixels belong to the shape'
+    },
+    {
+      key: 'spacing',
+      label: 'Photo Gap',
+      type: 'range',
+      min: 0,
+      max: 1,
+      step: 0.05,
+      description: '0 = photos touch, higher values open up the mosaic'
+    }
+  ],
+  create: (settings, photos) => new ShapePattern(settings, photos),
+});
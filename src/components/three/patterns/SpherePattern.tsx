@@ -0,0 +1,120 @@
+// src/components/three/patterns/SpherePattern.tsx - Photo planet: slots spread evenly over a sphere
+import * as THREE from 'three';
+import { MAX_PHOTO_COUNT } from '../../../store/sceneStore';
+import { BasePattern, type PatternState, type Position } from './BasePattern';
+import { PatternRegistry } from './PatternRegistry';
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+// Keep the bottom of the sphere just above the floor plane at y = -10
+const FLOOR_CLEARANCE = 9;
+
+export class SpherePattern extends BasePattern {
+  // Unit-sphere points as [latitude, longitude] pairs, before spin is applied
+  private generateSurfacePoints(count: number, bands: number): [number, number][] {
+    const points: [number, number][] = [];
+
+    if (bands <= 0) {
+      // Fibonacci lattice: near-uniform spacing with no visible seams
+      for (let i = 0; i < count; i++) {
+        const y = 1 - ((i + 0.5) / count) * 2;
+        points.push([Math.asin(y), i * GOLDEN_ANGLE]);
+      }
+      return points;
+    }
+
+    // Globe look: discrete rings, each holding slots in proportion to its circumference
+    const latitudes = Array.from({ length: bands }, (_, band) => Math.PI / 2 - ((band + 0.5) / bands) * Math.PI);
+    const weights = latitudes.map((lat) => Math.cos(lat));
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+
+    let assigned = 0;
+    latitudes.forEach((lat, band) => {
+      const remainingBands = bands - band;
+      const ringCount = band === bands - 1
+        ? count - assigned
+        : Math.min(count - assigned - (remainingBands - 1), Math.max(1, Math.round((weights[band] / totalWeight) * count)));
+
+      for (let j = 0; j < ringCount; j++) {
+        // Offset alternate rings so photos don't line up in columns
+        points.push([lat, ((j + (band % 2) * 0.5) / ringCount) * Math.PI * 2]);
+      }
+      assigned += ringCount;
+    });
+
+    return points;
+  }
+
+  generatePositions(time: number): PatternState {
+    const positions: Position[] = [];
+    const rotations: [number, number, number][] = [];
+
+    const totalPhotos = Math.min(this.settings.photoCount, MAX_PHOTO_COUNT);
+    const radius = this.getNumberParam('sphere', 'radius', 25);
+    const bands = Math.max(0, Math.round(this.getNumberParam('sphere', 'latitudeBands', 0)));
+    const rotationSpeed = this.getNumberParam('sphere', 'rotationSpeed', 0.2);
+
+    const speed = this.settings.animationSpeed / 100;
+    const animationTime = this.settings.animationEnabled ? time * speed : 0;
+    const spin = animationTime * rotationSpeed;
+
+    const centerY = (this.settings.wallHeight || 0) + Math.max(0, radius - FLOOR_CLEARANCE);
+    const points = this.generateSurfacePoints(totalPhotos, Math.min(bands, totalPhotos));
+    const euler = new THREE.Euler();
+
+    for (let i = 0; i < totalPhotos; i++) {
+      const [latitude, baseLongitude] = points[i];
+      const longitude = baseLongitude + spin;
+
+      const x = Math.cos(latitude) * Math.sin(longitude) * radius;
+      const y = Math.sin(latitude) * radius;
+      const z = Math.cos(latitude) * Math.cos(longitude) * radius;
+
+      positions.push([x, centerY + y, z]);
+
+      // Face outward: yaw to the longitude, then pitch to the latitude
+      euler.set(-latitude, longitude, 0, 'YXZ');
+      euler.reorder('XYZ');
+      rotations.push([euler.x, euler.y, euler.z]);
+    }
+
+    return { positions, rotations };
+  }
+}
+
+PatternRegistry.register({
+  id: 'sphere',
+  name: 'Sphere',
+  order: 4,
+  defaults: { radius: 25, latitudeBands: 0, rotationSpeed: 0.2 },
+  schema: [
+    {
+      key: 'radius',
+      label: 'Sphere Radius',
+      type: 'range',
+      min: 5,
+      max: 100,
+      step: 1,
+      unit: 'units',
+      description: 'Increase for higher photo counts so photos do not overlap'
+    },
+    {
+      key: 'latitudeBands',
+      label: 'Latitude Bands',
+      type: 'range',
+      min: 0,
+      max: 40,
+      step: 1,
+      description: '0 = evenly scattered surface, higher values line photos up in globe-style rings'
+    },
+    {
+      key: 'rotationSpeed',
+      label: 'Spin Speed',
+      type: 'range',
+      min: 0,
+      max: 2,
+      step: 0.05,
+      description: 'How fast the sphere turns around its axis'
+    }
+  ],
+  create: (settings, photos) => new SpherePattern(settings, photos),
+});
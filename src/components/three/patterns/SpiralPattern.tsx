@@ -1,18 +1,24 @@
+import { MAX_PHOTO_COUNT } from '../../../store/sceneStore';
 import { BasePattern, type PatternState, type Position } from './BasePattern';
+import { PatternRegistry } from './PatternRegistry';
+
+// Funnel height before the optional per-photo height step is added
+const BASE_SPIRAL_HEIGHT = 40;
 
 export class SpiralPattern extends BasePattern {
   generatePositions(time: number): PatternState {
     const positions: Position[] = [];
     const rotations: [number, number, number][] = [];
 
-    const totalPhotos = Math.min(this.settings.photoCount, 500);
+    const totalPhotos = Math.min(this.settings.photoCount, MAX_PHOTO_COUNT);
     const speed = this.settings.animationSpeed / 50;
     const animationTime = time * speed * 2;
     
     // Tornado parameters
     const baseRadius = 3; // Narrow radius at ground level (bottom of funnel)
-    const topRadius = 30; // Wide radius at top (top of funnel)
-    const maxHeight = 40; // Height of the spiral
+    const topRadius = Math.max(baseRadius, this.getNumberParam('spiral', 'radius', 30)); // Wide radius at top (top of funnel)
+    const maxHeight = BASE_SPIRAL_HEIGHT + totalPhotos * this.getNumberParam('spiral', 'heightStep', 0); // Optionally taller funnel for more photos
+    const packing = this.getNumberParam('spiral', 'spacing', 0.1); // Radial looseness of the funnel wall
     const rotationSpeed = 0.8; // Speed of rotation
     const orbitalChance = 0.2; // 20% chance for a photo to be on an outer orbit
     
@@ -51,7 +57,7 @@ export class SpiralPattern extends BasePattern {
       } else {
         // Main funnel photos
         // Add some variation within the funnel
-        const radiusVariation = 0.8 + randomSeed3 * 0.4; // 0.8 to 1.2
+        const radiusVariation = 1 + (randomSeed3 - 0.5) * packing * 4; // 0.8 to 1.2 at the default spacing
         radius = funnelRadius * radiusVariation;
         angleOffset = 0;
       }
@@ -102,4 +108,43 @@ export class SpiralPattern extends BasePattern {
 
     return { positions, rotations };
   }
-}
\ No newline at end of file
+}
+
+PatternRegistry.register({
+  id: 'spiral',
+  name: 'Spiral',
+  order: 3,
+  defaults: { spacing: 0.1, radius: 30, heightStep: 0 },
+  schema: [
+    {
+      key: 'radius',
+      label: 'Funnel Radius',
+      type: 'range',
+      min: 5,
+      max: 80,
+      step: 1,
+      unit: 'units',
+      description: 'Width of the tornado at its top'
+    },
+    {
+      key: 'heightStep',
+      label: 'Height Per Photo',
+      type: 'range',
+      min: 0,
+      max: 2,
+      step: 0.05,
+      unit: 'units',
+      description: 'Extra height per photo so bigger collages grow taller instead of denser'
+    },
+    {
+      key: 'spacing',
+      label: 'Funnel Spread',
+      type: 'range',
+      min: 0,
+      max: 0.25,
+      step: 0.01,
+      description: 'How loosely photos pack around the funnel wall'
+    }
+  ],
+  create: (settings, photos) => new SpiralPattern(settings, photos),
+});
@@ -0,0 +1,154 @@
+// src/components/three/patterns/TextPattern.tsx - Spells out a message with photos using the built-in pixel font
+import { MAX_PHOTO_COUNT } from '../../../store/sceneStore';
+import { BasePattern, type PatternState, type Position } from './BasePattern';
+import { PatternRegistry } from './PatternRegistry';
+import { renderTextMask } from './BitmapFont';
+import { thinCells, type MaskCell, type MaskSlotLayout } from './MaskLayout';
+
+// Photos are 9:16 portrait, so two photo columns per font pixel keeps each dot roughly square
+const COLUMNS_PER_DOT = 2;
+const MAX_AUTO_CELL_SIZE = 8;
+
+export class TextPattern extends BasePattern {
+  private static layouts = new Map<string, MaskSlotLayout>();
+
+  // Expands each filled font pixel into a block of (2 x cellSize) by cellSize photo slots
+  private static buildLayout(text: string, bold: boolean, requestedCellSize: number, slotCount: number): MaskSlotLayout {
+    const mask = renderTextMask(text, bold);
+    const filledDots = mask.filled.reduce((sum, value) => sum + value, 0);
+
+    let cellSize = Math.round(requestedCellSize);
+    if (cellSize <= 0) {
+      // Auto: the biggest letters whose front face can still be completely filled
+      cellSize = 1;
+      for (let size = MAX_AUTO_CELL_SIZE; size > 1; size--) {
+        if (filledDots * COLUMNS_PER_DOT * size * size <= slotCount) {
+          cellSize = size;
+          break;
+        }
+      }
+    }
+
+    const dotColumns = COLUMNS_PER_DOT * cellSize;
+    const columns = mask.width * dotColumns;
+    const rows = mask.height * cellSize;
+    const cells: MaskCell[] = [];
+
+    for (let y = 0; y < mask.height; y++) {
+      for (let dy = 0; dy < cellSize; dy++) {
+        for (let x = 0; x < mask.width; x++) {
+          if (!mask.filled[y * mask.width + x]) continue;
+          for (let dx = 0; dx < dotColumns; dx++) {
+            cells.push({
+              column: x * dotColumns + dx,
+              row: rows - 1 - (y * cellSize + dy)
+            });
+          }
+        }
+      }
+    }
+
+    // Too few photos for even the smallest letters: spread them evenly so the text stays legible
+    return thinCells({ cells, columns, rows }, slotCount);
+  }
+
+  generatePositions(time: number): PatternState {
+    const positions: Position[] = [];
+    const rotations: [number, number, number][] = [];
+
+    const totalPhotos = Math.min(this.settings.photoCount, MAX_PHOTO_COUNT);
+    const text = String(this.getParam('text', 'text') ?? '').trim() || ' ';
+    const bold = this.getParam('text', 'fontWeight') === 'bold';
+    const cellSize = this.getNumberParam('text', 'cellSize', 0);
+    const depth = this.getNumberParam('text', 'depth', 1.5);
+
+    const layoutKey = `${text}|${bold}|${cellSize}|${totalPhotos}`;
+    let layout = TextPattern.layouts.get(layoutKey);
+    if (!layout) {
+      // Typing regenerates layouts on every keystroke; keep the cache small
+      if (TextPattern.layouts.size > 20) TextPattern.layouts.clear();
+      layout = TextPattern.buildLayout(text, bold, cellSize, totalPhotos);
+      TextPattern.layouts.set(layoutKey, layout);
+    }
+
+    const photoSize = this.settings.photoSize || 4.0;
+    const horizontalSpacing = photoSize * (9 / 16);
+    const verticalSpacing = photoSize;
+    const wallHeight = this.settings.wallHeight || 0;
+    const totalWidth = (layout.columns - 1) * horizontalSpacing;
+
+    const speed = this.settings.animationSpeed / 100;
+    const animationTime = this.settings.animationEnabled ? time * speed : 0;
+
+    for (let i = 0; i < totalPhotos; i++) {
+      if (layout.cells.length === 0) {
+        positions.push([0, wallHeight, 0]);
+        rotations.push([0, 0, 0]);
+        continue;
+      }
+
+      // Slots beyond the front face extrude the letters backwards, layer by layer
+      const cell = layout.cells[i % layout.cells.length];
+      const layer = Math.floor(i / layout.cells.length);
+
+      const x = cell.column * horizontalSpacing - totalWidth / 2;
+      let y = wallHeight + cell.row * verticalSpacing;
+      const z = -layer * depth;
+
+      // Letters bob in a wave that travels along the message
+      if (this.settings.animationEnabled) {
+        y += Math.sin(animationTime * 1.5 - cell.column * 0.15) * photoSize * 0.15;
+      }
+
+      positions.push([x, y, z]);
+      rotations.push([0, 0, 0]);
+    }
+
+    return { positions, rotations };
+  }
+}
+
+PatternRegistry.register({
+  id: 'text',
+  name: 'Text',
+  order: 6,
+  defaults: { text: 'HELLO', fontWeight: 'bold', cellSize: 0, depth: 1.5 },
+  schema: [
+    {
+      key: 'text',
+      label: 'Message',
+      type: 'text',
+      placeholder: 'HAPPY 30TH',
+      description: 'Letters, numbers and basic punctuation. Use | to start a new line.'
+    },
+    {
+      key: 'fontWeight',
+      label: 'Font Weight',
+      type: 'select',
+      options: [
+        { value: 'regular', label: 'Regular' },
+        { value: 'bold', label: 'Bold' }
+      ]
+    },
+    {
+      key: 'cellSize',
+      label: 'Cell Size',
+      type: 'range',
+      min: 0,
+      max: 8,
+      step: 1,
+      description: 'Photo rows per letter pixel. 0 = largest size the photo count can fill.'
+    },
+    {
+      key: 'depth',
+      label: 'Depth',
+      type: 'range',
+      min: 0.5,
+      max: 10,
+      step: 0.5,
+      unit: 'units',
+      description: 'Spacing between layers when extra photos extrude the letters backwards'
+    }
+  ],
+  create: (settings, photos) => new TextPattern(settings, photos),
+});
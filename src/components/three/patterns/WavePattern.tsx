@@ -1,11 +1,15 @@
+import { MAX_PHOTO_COUNT } from '../../../store/sceneStore';
 import { BasePattern, type PatternState, type Position } from './BasePattern';
+import { PatternRegistry } from './PatternRegistry';
 
 export class WavePattern extends BasePattern {
   generatePositions(time: number): PatternState {
     const positions: Position[] = [];
     const rotations: [number, number, number][] = [];
-    const spacing = this.settings.photoSize * (1 + this.settings.photoSpacing);
-    const totalPhotos = Math.min(this.settings.photoCount, 500);
+    const spacing = this.settings.photoSize * (1 + this.getNumberParam('wave', 'spacing', this.settings.photoSpacing));
+    const amplitude = this.getNumberParam('wave', 'amplitude', 15);
+    const frequency = this.getNumberParam('wave', 'frequency', 0.3);
+    const totalPhotos = Math.min(this.settings.photoCount, MAX_PHOTO_COUNT);
     
     // Calculate grid dimensions based on total photos
     const columns = Math.ceil(Math.sqrt(totalPhotos));
@@ -25,8 +29,6 @@ export class WavePattern extends BasePattern {
       
       // Calculate wave height based on distance from center
       const distanceFromCenter = Math.sqrt(x * x + z * z);
-      const amplitude = 15;
-      const frequency = 0.3;
       
       let y = this.settings.wallHeight;
       
@@ -52,4 +54,44 @@ export class WavePattern extends BasePattern {
 
     return { positions, rotations };
   }
-}
\ No newline at end of file
+}
+
+PatternRegistry.register({
+  id: 'wave',
+  name: 'Wave',
+  order: 2,
+  // No spacing default: it falls back to the top-level photo spacing
+  defaults: { amplitude: 15, frequency: 0.3 },
+  schema: [
+    {
+      key: 'amplitude',
+      label: 'Wave Height',
+      type: 'range',
+      min: 0,
+      max: 40,
+      step: 0.5,
+      unit: 'units',
+      description: 'How far photos rise and fall as the wave passes'
+    },
+    {
+      key: 'frequency',
+      label: 'Wave Frequency',
+      type: 'range',
+      min: 0.05,
+      max: 1,
+      step: 0.05,
+      description: 'Higher values pack more ripples into the same area'
+    },
+    {
+      key: 'spacing',
+      label: 'Photo Spacing',
+      type: 'range',
+      min: 0,
+      max: 1,
+      step: 0.05,
+      description: 'Gap between neighboring photos, relative to photo size',
+      fallback: 'photoSpacing'
+    }
+  ],
+  create: (settings, photos) => new WavePattern(settings, photos),
+});
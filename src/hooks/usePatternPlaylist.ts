@@ -0,0 +1,80 @@
+// src/hooks/usePatternPlaylist.ts - Cycles the displayed pattern through the collage's playlist
+import { useEffect, useMemo, useState } from 'react';
+import { type SceneSettings } from '../store/sceneStore';
+import { PatternFactory } from '../components/three/patterns/PatternFactory';
+
+// Guards against a zero dwell time turning the playlist into a strobe
+const MIN_DWELL_SECONDS = 3;
+// How often a clock-driven playlist checks whether it has moved on to the next item
+const CLOCK_POLL_MS = 250;
+
+const dwellOf = (item: { dwellSeconds: number }) => Math.max(MIN_DWELL_SECONDS, item.dwellSeconds || 0);
+
+// With a shared clock every screen works out the same item from the time alone, instead of each running its own timer
+export const usePatternPlaylist = (
+  settings: SceneSettings | undefined,
+  clock?: () => number
+): SceneSettings | undefined => {
+  const items = useMemo(() => {
+    if (!settings?.patternPlaylistEnabled || !Array.isArray(settings.patternPlaylist)) return [];
+    // Skip entries whose pattern is no longer registered
+    return settings.patternPlaylist.filter((item) => PatternFactory.getPattern(item.pattern));
+  }, [settings?.patternPlaylistEnabled, settings?.patternPlaylist]);
+
+  const [index, setIndex] = useState(0);
+
+  // Start from the top whenever the playlist itself is edited
+  const playlistKey = items.map((item) => `${item.id}:${item.pattern}:${item.dwellSeconds}`).join('|');
+  useEffect(() => {
+    setIndex(0);
+  }, [playlistKey]);
+
+  useEffect(() => {
+    if (items.length < 2 || !clock) return;
+
+    const cycle = items.reduce((total, item) => total + dwellOf(item), 0);
+    const sync = () => {
+      let remaining = clock() % cycle;
+      let next = 0;
+      while (next < items.length - 1 && remaining >= dwellOf(items[next])) {
+        remaining -= dwellOf(items[next]);
+        next++;
+      }
+      setIndex(next);
+    };
+
+    sync();
+    const interval = setInterval(sync, CLOCK_POLL_MS);
+    return () => clearInterval(interval);
+  }, [items, clock]);
+
+  useEffect(() => {
+    if (items.length < 2 || clock) return;
+
+    const current = items[index % items.length];
+    const dwell = dwellOf(current);
+    const timeout = setTimeout(() => {
+      setIndex((prev) => (prev + 1) % items.length);
+    }, dwell * 1000);
+
+    return () => clearTimeout(timeout);
+  }, [items, index, clock]);
+
+  return useMemo(() => {
+    if (!settings || items.length === 0) return settings;
+
+    const current = items[index % items.length];
+    return {
+      ...settings,
+      animationPattern: current.pattern,
+      patterns: {
+        ...settings.patterns,
+        [current.pattern]: {
+          ...settings.patterns?.[current.pattern],
+          ...current.overrides,
+          enabled: true
+        }
+      }
+    };
+  }, [settings, items, index]);
+};
@@ -0,0 +1,47 @@
+// src/hooks/usePhotoTexture.ts - Photo texture from the shared texture manager, upgraded to full resolution on demand
+import { useEffect, useReducer } from 'react';
+import * as THREE from 'three';
+import { textureManager } from '../lib/textureManager';
+
+export type PhotoTextureState = {
+  texture: THREE.Texture | null;
+  isFullResolution: boolean;
+  hasError: boolean;
+};
+
+// `thumbnailUrl` is the small copy stored at upload time; without one the thumbnail is scaled down from `url`
+export const usePhotoTexture = (
+  url: string,
+  wantsFullResolution: boolean,
+  thumbnailUrl?: string | null
+): PhotoTextureState => {
+  const [, refresh] = useReducer((count: number) => count + 1, 0);
+  const loadFull = wantsFullResolution && textureManager.isFullResolutionAllowed();
+
+  useEffect(() => {
+    if (!url) return;
+    return textureManager.subscribe(url, refresh);
+  }, [url]);
+
+  // The thumbnail stays loaded as a fallback for as long as the photo is on screen
+  useEffect(() => {
+    if (!url) return;
+    return textureManager.retain(url, 'thumbnail', thumbnailUrl || url);
+  }, [url, thumbnailUrl]);
+
+  useEffect(() => {
+    if (!url || !loadFull) return;
+    return textureManager.retain(url, 'full');
+  }, [url, loadFull]);
+
+  if (!url) {
+    return { texture: null, isFullResolution: false, hasError: false };
+  }
+
+  const fullTexture = loadFull ? textureManager.get(url, 'full') : null;
+  return {
+    texture: fullTexture || textureManager.get(url, 'thumbnail'),
+    isFullResolution: Boolean(fullTexture),
+    hasError: textureManager.hasFailed(url)
+  };
+};
@@ -0,0 +1,35 @@
+// src/hooks/usePlaybackSync.ts - Joins the collage's shared playback clock while enabled
+import { useEffect, useReducer, useState } from 'react';
+import { PlaybackSync, type PlaybackSyncState } from '../lib/playbackSync';
+
+export type PlaybackSyncHandle = PlaybackSyncState & {
+  sync: PlaybackSync;
+};
+
+// `canLead` for screens signed in as the collage owner; everyone else only follows
+export const usePlaybackSync = (
+  collageId: string | undefined,
+  enabled: boolean,
+  canLead: boolean
+): PlaybackSyncHandle | null => {
+  const [, refresh] = useReducer((count: number) => count + 1, 0);
+  const [sync, setSync] = useState<PlaybackSync | null>(null);
+
+  useEffect(() => {
+    if (!collageId || !enabled) return;
+
+    const playbackSync = new PlaybackSync(collageId, canLead);
+    const unsubscribe = playbackSync.subscribe(refresh);
+    playbackSync.start();
+    setSync(playbackSync);
+
+    return () => {
+      unsubscribe();
+      playbackSync.stop();
+      setSync(null);
+    };
+  }, [collageId, enabled, canLead]);
+
+  if (!sync) return null;
+  return { ...sync.getState(), sync };
+};
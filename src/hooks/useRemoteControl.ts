@@ -0,0 +1,69 @@
+// src/hooks/useRemoteControl.ts - Both ends of the remote control channel as React hooks
+import { useCallback, useEffect, useReducer, useRef, useState } from 'react';
+import {
+  RemoteController,
+  RemoteDisplay,
+  type RemoteCommand,
+  type RemoteDisplayStatus
+} from '../lib/remoteControl';
+
+// Live display: applies remote commands and keeps the remote informed of what it shows
+export const useRemoteDisplay = (
+  collageId: string | undefined,
+  onCommand: (command: RemoteCommand) => void,
+  status: Omit<RemoteDisplayStatus, 'displayId'>
+) => {
+  const displayRef = useRef<RemoteDisplay | null>(null);
+  const onCommandRef = useRef(onCommand);
+  onCommandRef.current = onCommand;
+
+  useEffect(() => {
+    if (!collageId) return;
+
+    const display = new RemoteDisplay(collageId, (command) => onCommandRef.current(command));
+    display.start();
+    displayRef.current = display;
+
+    return () => {
+      display.stop();
+      displayRef.current = null;
+    };
+  }, [collageId]);
+
+  // Only report real changes - the status object is rebuilt on every render
+  const statusKey = JSON.stringify(status);
+  useEffect(() => {
+    displayRef.current?.setStatus(JSON.parse(statusKey));
+  }, [statusKey, collageId]);
+};
+
+// Remote page: sends commands and lists the displays that are listening
+export const useRemoteController = (collageId: string | undefined) => {
+  const [, refresh] = useReducer((count: number) => count + 1, 0);
+  const [controller, setController] = useState<RemoteController | null>(null);
+
+  useEffect(() => {
+    if (!collageId) return;
+
+    const remote = new RemoteController(collageId);
+    const unsubscribe = remote.subscribe(refresh);
+    remote.start();
+    setController(remote);
+
+    return () => {
+      unsubscribe();
+      remote.stop();
+      setController(null);
+    };
+  }, [collageId]);
+
+  const send = useCallback((command: RemoteCommand) => {
+    controller?.send(command);
+  }, [controller]);
+
+  return {
+    connected: controller?.isConnected() ?? false,
+    displays: controller?.getDisplays() ?? [],
+    send
+  };
+};
@@ -0,0 +1,71 @@
+// src/hooks/useSettingsHistory.ts - Bounded undo/redo history of the editor's scene settings
+import { useCallback, useReducer, useRef, type MutableRefObject } from 'react';
+import { type SceneSettings } from '../store/sceneStore';
+import { diffSettings } from '../lib/settingsSchema';
+
+const MAX_HISTORY = 100;
+// Continuous changes (slider drags) to the same settings this close together become one entry
+const COALESCE_MS = 1000;
+
+// `apply` receives only the changed fields, so undo and redo go through the same save path as edits
+export const useSettingsHistory = (
+  settings: SceneSettings,
+  apply: (changes: Partial<SceneSettings>) => void
+) => {
+  const [, refresh] = useReducer((count: number) => count + 1, 0);
+  const pastRef = useRef<SceneSettings[]>([]);
+  const futureRef = useRef<SceneSettings[]>([]);
+  const lastChangeRef = useRef<{ keys: string; at: number } | null>(null);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const applyRef = useRef(apply);
+  applyRef.current = apply;
+
+  // Call before applying an edit; `continuous` marks one step of a drag
+  const record = useCallback((changes: Partial<SceneSettings>, continuous = false) => {
+    const keys = Object.keys(changes).sort().join(',');
+    const now = performance.now();
+    const last = lastChangeRef.current;
+    lastChangeRef.current = continuous ? { keys, at: now } : null;
+
+    // Still the same drag - the entry from its first step already holds the starting point
+    if (continuous && last && last.keys === keys && now - last.at < COALESCE_MS) return;
+
+    pastRef.current = [...pastRef.current, settingsRef.current].slice(-MAX_HISTORY);
+    futureRef.current = [];
+    refresh();
+  }, []);
+
+  const step = useCallback((from: MutableRefObject<SceneSettings[]>, to: MutableRefObject<SceneSettings[]>) => {
+    const target = from.current[from.current.length - 1];
+    if (!target) return;
+
+    from.current = from.current.slice(0, -1);
+    to.current = [...to.current, settingsRef.current].slice(-MAX_HISTORY);
+    lastChangeRef.current = null;
+    applyRef.current(diffSettings(settingsRef.current, target));
+    // Lets a second key press before the next render step from the right place
+    settingsRef.current = target;
+    refresh();
+  }, []);
+
+  const undo = useCallback(() => step(pastRef, futureRef), [step]);
+  const redo = useCallback(() => step(futureRef, pastRef), [step]);
+
+  // Forget everything, e.g. when another collage is loaded
+  const clear = useCallback(() => {
+    pastRef.current = [];
+    futureRef.current = [];
+    lastChangeRef.current = null;
+    refresh();
+  }, []);
+
+  return {
+    record,
+    undo,
+    redo,
+    clear,
+    canUndo: pastRef.current.length > 0,
+    canRedo: futureRef.current.length > 0
+  };
+};
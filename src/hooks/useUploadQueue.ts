@@ -0,0 +1,48 @@
+// src/hooks/useUploadQueue.ts - A collage's uploads from the persistent upload queue
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { uploadQueue, type QueuedUpload } from '../lib/uploadQueue';
+import { type ImageProcessingOptions } from '../lib/imageProcessing';
+
+// `onUploaded` fires once per photo that finishes while the hook is mounted
+export const useUploadQueue = (collageId: string, onUploaded?: (upload: QueuedUpload) => void) => {
+  const [uploads, setUploads] = useState<QueuedUpload[]>(() => uploadQueue.getItems(collageId));
+  const onUploadedRef = useRef(onUploaded);
+  onUploadedRef.current = onUploaded;
+
+  useEffect(() => {
+    const finished = new Set(
+      uploadQueue.getItems(collageId).filter((upload) => upload.status === 'success').map((upload) => upload.id)
+    );
+
+    const refresh = () => {
+      const items = uploadQueue.getItems(collageId);
+      setUploads(items);
+      items.forEach((upload) => {
+        if (upload.status === 'success' && !finished.has(upload.id)) {
+          finished.add(upload.id);
+          onUploadedRef.current?.(upload);
+        }
+      });
+    };
+
+    const unsubscribe = uploadQueue.subscribe(refresh);
+    refresh();
+    uploadQueue.resume(collageId);
+    return unsubscribe;
+  }, [collageId]);
+
+  const add = useCallback(
+    (files: File[], imageProcessing?: Partial<ImageProcessingOptions>) => uploadQueue.add(collageId, files, imageProcessing),
+    [collageId]
+  );
+  const clearCompleted = useCallback(() => uploadQueue.clearCompleted(collageId), [collageId]);
+
+  return {
+    uploads,
+    add,
+    retry: uploadQueue.retry.bind(uploadQueue),
+    remove: uploadQueue.remove.bind(uploadQueue),
+    clearCompleted,
+    isActive: uploadQueue.isActive.bind(uploadQueue)
+  };
+};
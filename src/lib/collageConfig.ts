@@ -0,0 +1,132 @@
+// src/lib/collageConfig.ts - Collage configuration files for moving a look between collages and accounts
+//
+// The file holds the collage name and its full settings, stamped with the settings schema version so a
+// file exported by an older build is migrated on import like stored settings are.
+import { SETTINGS_VERSION, type SceneSettings } from '../store/sceneStore';
+import { diffSettings, loadCollageSettings } from './settingsSchema';
+
+const CONFIG_FILE_TYPE = 'collage-config';
+// Configuration files are a few KB; anything far bigger is not one of ours
+const MAX_CONFIG_FILE_SIZE = 1024 * 1024;
+
+export type CollageConfigFile = {
+  type: typeof CONFIG_FILE_TYPE;
+  schemaVersion: number;
+  exportedAt: string;
+  collage: {
+    name: string;
+    settings: SceneSettings;
+  };
+};
+
+export type ParsedCollageConfig = {
+  name: string;
+  settings: SceneSettings;
+  schemaVersion: number;
+  // Fields that were invalid in the file and fell back to defaults
+  issues: string[];
+};
+
+export type SettingsChange = {
+  key: string;
+  from: string;
+  to: string;
+};
+
+export const createCollageConfig = (name: string, settings: SceneSettings): CollageConfigFile => ({
+  type: CONFIG_FILE_TYPE,
+  schemaVersion: SETTINGS_VERSION,
+  exportedAt: new Date().toISOString(),
+  collage: {
+    name,
+    settings: { ...settings, version: SETTINGS_VERSION }
+  }
+});
+
+export const downloadCollageConfig = (name: string, settings: SceneSettings) => {
+  const json = JSON.stringify(createCollageConfig(name, settings), null, 2);
+  const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'collage';
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${slug}-config.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const parseCollageConfig = (text: string): ParsedCollageConfig => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (!data || data.type !== CONFIG_FILE_TYPE || !data.collage || typeof data.collage !== 'object') {
+    throw new Error('This is not a collage configuration file.');
+  }
+
+  const { settings, name } = data.collage;
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    throw new Error('The file has no collage settings.');
+  }
+
+  const schemaVersion = Number.isInteger(data.schemaVersion) ? data.schemaVersion : 0;
+  if (schemaVersion > SETTINGS_VERSION) {
+    throw new Error(`The file was exported by a newer version of the app (settings version ${schemaVersion}). Update this app before importing it.`);
+  }
+
+  const issues: string[] = [];
+  return {
+    name: typeof name === 'string' ? name.trim() : '',
+    settings: loadCollageSettings({ version: schemaVersion, ...settings }, issues),
+    schemaVersion,
+    issues
+  };
+};
+
+export const readCollageConfigFile = async (file: File): Promise<ParsedCollageConfig> => {
+  if (file.size > MAX_CONFIG_FILE_SIZE) {
+    throw new Error('The file is too large to be a collage configuration.');
+  }
+  return parseCollageConfig(await file.text());
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined) return '—';
+  if (Array.isArray(value)) return `${value.length} item${value.length === 1 ? '' : 's'}`;
+  if (typeof value === 'number') return String(Number(value.toFixed(3)));
+  if (typeof value === 'object' && value !== null) return JSON.stringify(value);
+  return String(value);
+};
+
+// One row per changed setting; pattern blocks are broken down to their individual parameters
+export const describeSettingsChanges = (from: SceneSettings, to: SceneSettings): SettingsChange[] => {
+  const changes = diffSettings(from, to);
+  const rows: SettingsChange[] = [];
+
+  (Object.keys(changes) as Array<keyof SceneSettings>).forEach((key) => {
+    if (key === 'version') return;
+
+    if (key === 'patterns') {
+      const patternIds = new Set([...Object.keys(from.patterns || {}), ...Object.keys(to.patterns || {})]);
+      patternIds.forEach((id) => {
+        const before: Record<string, unknown> = from.patterns?.[id] || {};
+        const after: Record<string, unknown> = to.patterns?.[id] || {};
+        new Set([...Object.keys(before), ...Object.keys(after)]).forEach((param) => {
+          if (after[param] !== undefined && before[param] !== after[param]) {
+            rows.push({ key: `patterns.${id}.${param}`, from: formatValue(before[param]), to: formatValue(after[param]) });
+          }
+        });
+      });
+      return;
+    }
+
+    rows.push({ key, from: formatValue(from[key]), to: formatValue(to[key]) });
+  });
+
+  return rows;
+};
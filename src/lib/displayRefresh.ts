@@ -0,0 +1,50 @@
+// src/lib/displayRefresh.ts - How often the display refreshes, timed while nothing heavy is rendering
+//
+// requestAnimationFrame fires once per vsync as long as frames are cheap, so timing it before a scene
+// mounts gives the display's refresh interval. Once a scene renders, slow frames stretch the gaps and the
+// timing would describe the scene instead of the display - those measurements are thrown away.
+
+const MEASURE_FRAMES = 30;
+
+let refreshMs: number | null = null;
+let measuring = false;
+let activeScenes = 0;
+let sceneStartedWhileMeasuring = false;
+
+// Call before a scene mounts; does nothing once measured, while measuring or while a scene is rendering
+export const measureDisplayRefresh = () => {
+  if (refreshMs !== null || measuring || activeScenes > 0 || typeof requestAnimationFrame === 'undefined') return;
+
+  measuring = true;
+  sceneStartedWhileMeasuring = false;
+  const deltas: number[] = [];
+  let last: number | null = null;
+
+  const tick = (now: number) => {
+    if (last !== null) deltas.push(now - last);
+    last = now;
+    if (deltas.length < MEASURE_FRAMES) {
+      requestAnimationFrame(tick);
+      return;
+    }
+
+    measuring = false;
+    if (!sceneStartedWhileMeasuring) {
+      refreshMs = [...deltas].sort((a, b) => a - b)[Math.floor(deltas.length / 2)];
+      console.log(`🖥️ DISPLAY: Refreshing every ${refreshMs.toFixed(1)}ms`);
+    }
+  };
+  requestAnimationFrame(tick);
+};
+
+// Median interval between refreshes in ms; null if it couldn't be measured without a scene rendering
+export const getDisplayRefreshMs = (): number | null => refreshMs;
+
+// Scenes register while they render so their frames never count as the display's; returns the cleanup
+export const trackSceneRendering = () => {
+  activeScenes++;
+  sceneStartedWhileMeasuring = true;
+  return () => {
+    activeScenes--;
+  };
+};
@@ -0,0 +1,377 @@
+// src/lib/imageProcessing.ts - Shrinks photos in the browser before they are uploaded
+//
+// The 3D scene never shows a photo larger than a couple of thousand pixels, so phone photos are scaled
+// down and re-encoded before they leave the guest's device, and a small thumbnail is made for lists.
+//
+// Photos are stored in a public bucket, so nothing but pixels may leave the device: re-encoding through a
+// canvas drops EXIF (GPS position, camera make and model, capture time), and the EXIF orientation is baked
+// into the pixels first so phone photos aren't shown sideways once the tag is gone.
+import { computePerceptualHash } from './perceptualHash';
+
+export type ImageOutputFormat = 'webp' | 'jpeg';
+
+export type ImageProcessingOptions = {
+  maxEdge: number;          // px, longest side of the stored photo
+  quality: number;          // 0-1 encoder quality
+  format: ImageOutputFormat; // WebP falls back to JPEG in browsers that can't encode it
+  thumbnailMaxEdge: number;
+  thumbnailQuality: number;
+};
+
+// Reported while a photo is prepared, for per-file progress
+export type ImageProcessingStage = 'converting' | 'resizing';
+
+export type ProcessedImage = {
+  file: File;
+  thumbnail: Blob;
+  width: number;
+  height: number;
+  perceptualHash: string | null; // for spotting the same photo uploaded twice
+};
+
+export const DEFAULT_IMAGE_PROCESSING: ImageProcessingOptions = {
+  maxEdge: 2048,
+  quality: 0.85,
+  format: 'webp',
+  thumbnailMaxEdge: 400,
+  thumbnailQuality: 0.7
+};
+
+// Animated GIFs would lose their animation on a canvas, so they are stored as they are, minus their metadata
+const PASSTHROUGH_TYPES = ['image/gif'];
+
+// Largest file the collage store accepts. Resized photos end up far below it; passthrough files don't
+// shrink, so they have to be checked against it before they're queued
+export const MAX_UPLOAD_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+
+// iPhones store photos as HEIC; only Safari can decode it natively, everywhere else it's converted first
+const HEIC_TYPES = ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence'];
+const SUPPORTED_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', ...HEIC_TYPES];
+// What file inputs should offer - some browsers don't map .heic to image/*
+export const SUPPORTED_IMAGE_ACCEPT = 'image/*,.heic,.heif';
+
+// The EXIF block sits in the first segments of a JPEG; no need to read the whole file to find it
+const EXIF_SEARCH_BYTES = 128 * 1024;
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+const MIME_TYPES: Record<ImageOutputFormat, string> = {
+  webp: 'image/webp',
+  jpeg: 'image/jpeg'
+};
+
+let webpSupported: boolean | null = null;
+const canEncodeWebp = () => {
+  if (webpSupported === null) {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 1;
+    webpSupported = canvas.toDataURL('image/webp').startsWith('data:image/webp');
+  }
+  return webpSupported;
+};
+
+type DecodedImage = {
+  source: CanvasImageSource;
+  width: number;
+  height: number;
+  close: () => void;
+};
+
+const decodeImage = async (file: Blob): Promise<DecodedImage> => {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      const bitmap = await createImageBitmap(file);
+      return { source: bitmap, width: bitmap.width, height: bitmap.height, close: () => bitmap.close() };
+    } catch (error) {
+      console.warn('⚠️ createImageBitmap failed, falling back to <img> decoding:', error);
+    }
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return { source: image, width: image.naturalWidth, height: image.naturalHeight, close: () => {} };
+  } catch {
+    throw new Error('This image could not be read. It may be damaged or in an unsupported format.');
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// EXIF orientation (1-8) of a JPEG, 1 when the file has none
+export const readExifOrientation = (buffer: ArrayBuffer): number => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    // Image data starts at SOS - there is no EXIF block past it
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return 1;
+    const length = view.getUint16(offset + 2);
+
+    // APP1 starting with "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return 1;
+      const littleEndian = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+      if (ifd + 2 > view.byteLength) return 1;
+
+      const entries = view.getUint16(ifd, littleEndian);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > view.byteLength) return 1;
+        if (view.getUint16(entry, littleEndian) === EXIF_ORIENTATION_TAG) {
+          const orientation = view.getUint16(entry + 8, littleEndian);
+          return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+      }
+      return 1;
+    }
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+// Current browsers apply the EXIF orientation while decoding, older ones (Safari before 13.1, Chrome
+// before 81) hand back the raw sensor pixels. Decoding a tiny 2×1 JPEG tagged "rotate 90°" tells which.
+let orientationAppliedByBrowser: Promise<boolean> | null = null;
+const browserAppliesOrientation = () => {
+  if (!orientationAppliedByBrowser) {
+    orientationAppliedByBrowser = (async () => {
+      try {
+        const canvas = document.createElement('canvas');
+        canvas.width = 2;
+        canvas.height = 1;
+        const jpeg = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg'));
+        if (!jpeg) return true;
+
+        // APP1 segment holding a single IFD entry: orientation = 6
+        const exif = new Uint8Array([
+          0xff, 0xe1, 0x00, 0x22,
+          0x45, 0x78, 0x69, 0x66, 0x00, 0x00,
+          0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08,
+          0x00, 0x01,
+          0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, 0x06, 0x00, 0x00,
+          0x00, 0x00, 0x00, 0x00
+        ]);
+        const bytes = new Uint8Array(await jpeg.arrayBuffer());
+        const tagged = new Blob([bytes.slice(0, 2), exif, bytes.slice(2)], { type: 'image/jpeg' });
+
+        const image = await decodeImage(tagged);
+        image.close();
+        return image.width === 1;
+      } catch (error) {
+        console.warn('⚠️ Could not detect EXIF orientation support, assuming the browser applies it:', error);
+        return true;
+      }
+    })();
+  }
+  return orientationAppliedByBrowser;
+};
+
+// Orientation still to be applied to the decoded pixels, 1 when the browser already did it
+const pendingOrientation = async (file: File) => {
+  if (file.type !== 'image/jpeg') return 1;
+  const orientation = readExifOrientation(await file.slice(0, EXIF_SEARCH_BYTES).arrayBuffer());
+  if (orientation === 1 || await browserAppliesOrientation()) return 1;
+  return orientation;
+};
+
+// Maps the raw pixels onto the upright canvas for each EXIF orientation; w and h are the raw drawn size
+const applyOrientation = (context: CanvasRenderingContext2D, orientation: number, w: number, h: number) => {
+  switch (orientation) {
+    case 2: context.transform(-1, 0, 0, 1, w, 0); break;
+    case 3: context.transform(-1, 0, 0, -1, w, h); break;
+    case 4: context.transform(1, 0, 0, -1, 0, h); break;
+    case 5: context.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: context.transform(0, 1, -1, 0, h, 0); break;
+    case 7: context.transform(0, -1, -1, 0, h, w); break;
+    case 8: context.transform(0, -1, 1, 0, 0, w); break;
+  }
+};
+
+// Browsers often leave the type of HEIC files empty, so the extension counts too
+export const isHeicFile = (file: File) =>
+  HEIC_TYPES.includes(file.type.toLowerCase()) ||
+  ((!file.type || file.type === 'application/octet-stream') && /\.hei[cf]$/i.test(file.name));
+
+export const isSupportedImageFile = (file: File) =>
+  SUPPORTED_TYPES.includes(file.type.toLowerCase()) || isHeicFile(file);
+
+// Uploaded without resizing, so the file's own size is what gets stored
+export const isPassthroughFile = (file: File) => PASSTHROUGH_TYPES.includes(file.type.toLowerCase());
+
+// HEIC to JPEG with libheif compiled to WebAssembly; the converter is large, so it is only loaded when needed
+const convertHeicImage = async (file: File): Promise<File> => {
+  try {
+    const { default: heic2any } = await import('heic2any');
+    const result = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.92 });
+    // Burst and live photos hold several images - the first is the one the guest saw
+    const blob = Array.isArray(result) ? result[0] : result;
+    console.log(`🗜️ Converted HEIC ${file.name}: ${(file.size / 1024).toFixed(0)}KB → ${(blob.size / 1024).toFixed(0)}KB JPEG`);
+    return new File([blob], renameWithExtension(file.name, 'jpg'), { type: 'image/jpeg' });
+  } catch (error) {
+    console.error('❌ HEIC conversion failed:', error);
+    throw new Error('This HEIC photo could not be converted. Try exporting it as JPEG first.');
+  }
+};
+
+const decodeUploadImage = async (file: File, onStage?: (stage: ImageProcessingStage) => void) => {
+  if (!isHeicFile(file)) return decodeImage(file);
+
+  let image: DecodedImage;
+  try {
+    image = await decodeImage(file);
+  } catch {
+    image = await decodeImage(await convertHeicImage(file));
+  }
+  onStage?.('resizing');
+  return image;
+};
+
+const encode = (image: DecodedImage, orientation: number, maxEdge: number, type: string, quality: number) => {
+  const scale = Math.min(1, maxEdge / Math.max(image.width, image.height));
+  const drawWidth = Math.max(1, Math.round(image.width * scale));
+  const drawHeight = Math.max(1, Math.round(image.height * scale));
+  // Orientations 5-8 turn the picture on its side
+  const sideways = orientation >= 5;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = sideways ? drawHeight : drawWidth;
+  canvas.height = sideways ? drawWidth : drawHeight;
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Image processing is not available in this browser');
+  context.imageSmoothingQuality = 'high';
+  applyOrientation(context, orientation, drawWidth, drawHeight);
+  context.drawImage(image.source, 0, 0, drawWidth, drawHeight);
+
+  return new Promise<{ blob: Blob; width: number; height: number; canvas: HTMLCanvasElement }>((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve({ blob, width: canvas.width, height: canvas.height, canvas });
+      } else {
+        reject(new Error('Failed to encode image'));
+      }
+    }, type, quality);
+  });
+};
+
+// GIF application extensions that only carry playback or colour data
+const GIF_KEPT_APPLICATIONS = ['NETSCAPE2.0', 'ANIMEXTS1.0', 'ICCRGBG1012'];
+
+// Copy of a GIF without comment blocks and metadata application blocks (XMP can hold GPS and device
+// details). Returns null if the file isn't a GIF this parser understands.
+export const stripGifMetadata = (buffer: ArrayBuffer): Uint8Array | null => {
+  const bytes = new Uint8Array(buffer);
+  const header = String.fromCharCode(...bytes.subarray(0, 6));
+  if (header !== 'GIF87a' && header !== 'GIF89a') return null;
+
+  const colorTableSize = (packed: number) => (packed & 0x80 ? 3 * 2 ** ((packed & 0x07) + 1) : 0);
+  // Offset just past a chain of data sub-blocks
+  const skipSubBlocks = (offset: number) => {
+    while (offset < bytes.length && bytes[offset] !== 0) offset += bytes[offset] + 1;
+    return offset + 1;
+  };
+
+  const kept: Uint8Array[] = [];
+  let offset = 13 + colorTableSize(bytes[10]);
+  kept.push(bytes.subarray(0, offset));
+
+  while (offset < bytes.length) {
+    const start = offset;
+    const block = bytes[offset];
+
+    if (block === 0x3b) {
+      kept.push(bytes.subarray(offset, offset + 1));
+      return offset + 1 <= bytes.length ? concatBytes(kept) : null;
+    }
+
+    if (block === 0x2c) {
+      offset += 10 + colorTableSize(bytes[offset + 9]);
+      offset = skipSubBlocks(offset + 1);
+      kept.push(bytes.subarray(start, offset));
+    } else if (block === 0x21) {
+      const label = bytes[offset + 1];
+      offset = skipSubBlocks(offset + 2);
+      const application = label === 0xff
+        ? String.fromCharCode(...bytes.subarray(start + 3, start + 3 + bytes[start + 2]))
+        : '';
+      const isMetadata = label === 0xfe || (label === 0xff && !GIF_KEPT_APPLICATIONS.includes(application));
+      if (!isMetadata) kept.push(bytes.subarray(start, offset));
+    } else {
+      return null;
+    }
+
+    if (offset > bytes.length) return null;
+  }
+
+  return null;
+};
+
+const concatBytes = (chunks: Uint8Array[]) => {
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return result;
+};
+
+const renameWithExtension = (name: string, extension: string) =>
+  `${name.replace(/\.[^./]+$/, '') || 'photo'}.${extension}`;
+
+export const prepareImageForUpload = async (
+  file: File,
+  options: Partial<ImageProcessingOptions> = {},
+  onStage?: (stage: ImageProcessingStage) => void
+): Promise<ProcessedImage> => {
+  const settings = { ...DEFAULT_IMAGE_PROCESSING, ...options };
+  const format: ImageOutputFormat = settings.format === 'webp' && !canEncodeWebp() ? 'jpeg' : settings.format;
+  const type = MIME_TYPES[format];
+
+  onStage?.(isHeicFile(file) ? 'converting' : 'resizing');
+  const orientation = await pendingOrientation(file);
+  const image = await decodeUploadImage(file, onStage);
+  try {
+    const thumbnail = await encode(image, orientation, settings.thumbnailMaxEdge, type, settings.thumbnailQuality);
+    // Hashed from the upright thumbnail so the hash doesn't depend on how the original was stored
+    const perceptualHash = computePerceptualHash(thumbnail.canvas);
+
+    if (isPassthroughFile(file)) {
+      const stripped = stripGifMetadata(await file.arrayBuffer());
+      if (stripped) {
+        return {
+          file: new File([stripped], file.name, { type: file.type }),
+          thumbnail: thumbnail.blob,
+          width: image.width,
+          height: image.height,
+          perceptualHash
+        };
+      }
+      // A GIF we can't walk can't be shown to be clean - store a still frame instead
+      console.warn('⚠️ Could not strip GIF metadata, storing a still image instead:', file.name);
+    }
+
+    const full = await encode(image, orientation, settings.maxEdge, type, settings.quality);
+    console.log(
+      `🗜️ Resized ${file.name}${orientation !== 1 ? ` (EXIF orientation ${orientation})` : ''}:`,
+      `${image.width}×${image.height} → ${full.width}×${full.height},`,
+      `${(file.size / 1024).toFixed(0)}KB → ${(full.blob.size / 1024).toFixed(0)}KB`
+    );
+
+    return {
+      file: new File([full.blob], renameWithExtension(file.name, format === 'jpeg' ? 'jpg' : format), { type }),
+      thumbnail: thumbnail.blob,
+      width: full.width,
+      height: full.height,
+      perceptualHash
+    };
+  } finally {
+    image.close();
+  }
+};
@@ -0,0 +1,78 @@
+// src/lib/perceptualHash.ts - Difference hash (dHash) for spotting near-duplicate photos
+//
+// The image is shrunk to 9×8 greys and each bit records whether a pixel is brighter than its right-hand
+// neighbour. Re-encoding, resizing and small crops barely move the 64 bits, so the same selfie uploaded
+// twice lands within a few bits of itself while different photos are typically 20+ bits apart.
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+// Hashes at most this many bits apart are treated as the same photo
+export const DUPLICATE_HASH_DISTANCE = 6;
+
+// 16 hex characters; null if the image can't be read back from a canvas
+export const computePerceptualHash = (source: CanvasImageSource): string | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = HASH_WIDTH;
+  canvas.height = HASH_HEIGHT;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+
+  let pixels: Uint8ClampedArray;
+  try {
+    pixels = context.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT).data;
+  } catch (error) {
+    console.warn('⚠️ Could not read pixels for perceptual hash:', error);
+    return null;
+  }
+
+  const luma = (x: number, y: number) => {
+    const i = (y * HASH_WIDTH + x) * 4;
+    return pixels[i] * 0.299 + pixels[i + 1] * 0.587 + pixels[i + 2] * 0.114;
+  };
+
+  let hash = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let byte = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      byte = (byte << 1) | (luma(x, y) > luma(x + 1, y) ? 1 : 0);
+    }
+    hash += byte.toString(16).padStart(2, '0');
+  }
+  return hash;
+};
+
+const NIBBLE_BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+// Number of differing bits; Infinity for hashes that can't be compared
+export const hammingDistance = (a: string, b: string): number => {
+  if (a.length !== b.length) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    if (Number.isNaN(diff)) return Infinity;
+    distance += NIBBLE_BITS[diff];
+  }
+  return distance;
+};
+
+// The closest hash within DUPLICATE_HASH_DISTANCE, if any
+export const findNearDuplicate = <T extends { perceptual_hash?: string | null }>(
+  hash: string,
+  candidates: T[]
+): T | null => {
+  let best: T | null = null;
+  let bestDistance = DUPLICATE_HASH_DISTANCE + 1;
+  candidates.forEach((candidate) => {
+    if (!candidate.perceptual_hash) return;
+    const distance = hammingDistance(hash, candidate.perceptual_hash);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  });
+  return best;
+};
@@ -0,0 +1,304 @@
+// src/lib/playbackSync.ts - Shared playback clock for every screen showing the same collage
+//
+// Screens join a private Supabase Realtime channel per collage. Only screens signed in as the collage owner
+// may write to it (see the steady_metronome migration), so only they take part in the election: the one
+// that joined first leads and publishes its clock, displayed pattern and current spotlight. Owner screens
+// that follow measure their offset from the leader with ping/pong round trips and slew toward it, so
+// corrections never make the animation jump or run backwards. Anyone else (guests' phones) only listens.
+import { nanoid } from 'nanoid';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { authorizeRealtime, supabase } from './supabase';
+
+export type PlaybackSpotlight = {
+  photoId: string;
+  startAt: number; // shared clock seconds
+};
+
+export type PlaybackSyncState = {
+  connected: boolean;
+  isLeader: boolean;
+  hasLeader: boolean; // false while no owner screen is leading - screens then play on their own
+  peerCount: number;
+  leaderPattern: string | null;
+  spotlight: PlaybackSpotlight | null;
+};
+
+type StateMessage = {
+  leaderId: string;
+  time: number;
+  pattern: string | null;
+  spotlight: PlaybackSpotlight | null;
+};
+
+type PingMessage = { from: string; nonce: string };
+type PongMessage = { from: string; to: string; nonce: string; time: number };
+
+type PresenceEntry = { id: string; joinedAt: number };
+
+const STATE_INTERVAL_MS = 1000;
+const PING_INTERVAL_MS = 2000;
+// Offset samples kept; the one with the shortest round trip is trusted most
+const OFFSET_SAMPLES = 5;
+// Round trips slower than this say more about the network than the clock
+const MAX_ROUND_TRIP_SECONDS = 1;
+// Drift is corrected by running up to 10% fast or slow; anything bigger than the snap threshold jumps
+const MAX_SLEW_RATE = 0.1;
+const SNAP_SECONDS = 1;
+
+const localSeconds = () => performance.now() / 1000;
+
+export class PlaybackSync {
+  private readonly id = nanoid(10);
+  private joinedAt = Date.now();
+  private channel: RealtimeChannel | null = null;
+  private timers: ReturnType<typeof setInterval>[] = [];
+  private listeners = new Set<() => void>();
+
+  // Shared clock = local clock + offset, with the applied offset chasing the measured one
+  private offset = 0;
+  private targetOffset = 0;
+  private lastSlewAt = localSeconds();
+  private samples: { offset: number; roundTrip: number }[] = [];
+  private pendingPings = new Map<string, number>();
+
+  private leaderId: string | null = null;
+  private pattern: string | null = null;
+  private completedSpotlights = new Set<string>();
+  private state: PlaybackSyncState;
+
+  // `canLead`: the screen is signed in as the collage owner - the channel's policies reject anyone else's writes
+  constructor(private readonly collageId: string, private readonly canLead: boolean) {
+    this.state = {
+      connected: false,
+      isLeader: canLead,
+      hasLeader: canLead,
+      peerCount: canLead ? 1 : 0,
+      leaderPattern: null,
+      spotlight: null
+    };
+  }
+
+  // Stable reference, so it can be handed straight to the scene as its clock
+  now = (): number => {
+    const local = localSeconds();
+    const step = MAX_SLEW_RATE * (local - this.lastSlewAt);
+    this.lastSlewAt = local;
+    const error = this.targetOffset - this.offset;
+    this.offset += Math.max(-step, Math.min(step, error));
+    return local + this.offset;
+  };
+
+  getState = (): PlaybackSyncState => this.state;
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  start() {
+    if (this.channel) return;
+
+    console.log('⏱️ PLAYBACK SYNC: Joining as', this.id, this.canLead ? '' : '(listening only)');
+    const channel = supabase.channel(`playback-${this.collageId}`, {
+      config: {
+        broadcast: { self: false },
+        presence: { key: this.id },
+        private: true
+      }
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => this.electLeader())
+      .on('broadcast', { event: 'state' }, ({ payload }) => this.handleState(payload as StateMessage))
+      .on('broadcast', { event: 'ping' }, ({ payload }) => this.handlePing(payload as PingMessage))
+      .on('broadcast', { event: 'pong' }, ({ payload }) => this.handlePong(payload as PongMessage));
+    authorizeRealtime().then(() => {
+      if (this.channel !== channel) return;
+      channel.subscribe(async (status) => {
+        console.log('⏱️ PLAYBACK SYNC: Channel status', status);
+        if (status === 'SUBSCRIBED') {
+          if (this.isCandidate()) await channel.track({ id: this.id, joinedAt: this.joinedAt });
+          this.setState({ connected: true });
+        } else if (status === 'CLOSED' || status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          this.setState({ connected: false });
+        }
+      });
+    });
+
+    this.channel = channel;
+    this.timers = [
+      setInterval(() => this.broadcastState(), STATE_INTERVAL_MS),
+      setInterval(() => this.sendPing(), PING_INTERVAL_MS)
+    ];
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+  }
+
+  stop() {
+    this.timers.forEach(clearInterval);
+    this.timers = [];
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    if (this.channel) {
+      console.log('⏱️ PLAYBACK SYNC: Leaving');
+      this.channel.unsubscribe();
+      this.channel = null;
+    }
+  }
+
+  // The leader tells followers which pattern it is showing
+  setPattern(pattern: string | null) {
+    this.pattern = pattern;
+  }
+
+  // Leader only: schedules a spotlight far enough ahead for every screen to load the photo
+  startSpotlight(photoId: string, leadSeconds: number) {
+    if (!this.state.isLeader || this.state.spotlight) return;
+
+    const spotlight = { photoId, startAt: this.now() + leadSeconds };
+    this.setState({ spotlight });
+    this.broadcastState();
+  }
+
+  finishSpotlight(spotlight: PlaybackSpotlight) {
+    this.completedSpotlights.add(`${spotlight.photoId}@${spotlight.startAt}`);
+    if (this.state.spotlight?.photoId === spotlight.photoId && this.state.spotlight.startAt === spotlight.startAt) {
+      this.setState({ spotlight: null });
+    }
+  }
+
+  private setState(changes: Partial<PlaybackSyncState>) {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // Owner screens in the foreground; a hidden tab's timers are throttled, so it would stall everyone as leader
+  private isCandidate(): boolean {
+    return this.canLead && document.visibilityState !== 'hidden';
+  }
+
+  // Hidden screens step out of the election and rejoin as the newest screen, so they come back as followers
+  private handleVisibilityChange = () => {
+    if (!this.channel || !this.canLead || !this.state.connected) return;
+
+    if (this.isCandidate()) {
+      this.joinedAt = Date.now();
+      this.channel.track({ id: this.id, joinedAt: this.joinedAt });
+    } else {
+      this.channel.untrack();
+    }
+    this.electLeader();
+  };
+
+  private electLeader() {
+    if (!this.channel) return;
+
+    // Only the owner's screens can track presence on the private channel, so guests never show up here
+    const peers: PresenceEntry[] = Object.values(this.channel.presenceState<PresenceEntry>())
+      .flat()
+      .filter((entry) => entry && typeof entry.id === 'string')
+      .map((entry) => ({ id: entry.id, joinedAt: entry.joinedAt }))
+      .filter((entry) => entry.id !== this.id || this.isCandidate());
+    if (this.isCandidate() && !peers.some((peer) => peer.id === this.id)) {
+      peers.push({ id: this.id, joinedAt: this.joinedAt });
+    }
+
+    peers.sort((a, b) => a.joinedAt - b.joinedAt || a.id.localeCompare(b.id));
+    const leaderId = peers[0]?.id ?? null;
+
+    if (leaderId !== this.leaderId) {
+      console.log('⏱️ PLAYBACK SYNC: Leader is', leaderId === this.id ? 'this screen' : leaderId ?? 'nobody');
+      this.leaderId = leaderId;
+      // Offsets measured against the old leader don't apply to the new one
+      this.samples = [];
+      this.pendingPings.clear();
+    }
+
+    const isLeader = leaderId === this.id;
+    const following = leaderId !== null && !isLeader;
+    this.setState({
+      isLeader,
+      hasLeader: leaderId !== null,
+      peerCount: peers.length,
+      leaderPattern: following ? this.state.leaderPattern : null,
+      spotlight: following || isLeader ? this.state.spotlight : null
+    });
+  }
+
+  private broadcastState() {
+    if (!this.channel || !this.state.isLeader || !this.state.connected) return;
+
+    const message: StateMessage = {
+      leaderId: this.id,
+      time: this.now(),
+      pattern: this.pattern,
+      spotlight: this.state.spotlight
+    };
+    this.channel.send({ type: 'broadcast', event: 'state', payload: message });
+  }
+
+  private handleState(message: StateMessage) {
+    // Only the elected leader's state counts - anything else is a screen that hasn't caught up with the election
+    if (this.state.isLeader || !this.leaderId || message.leaderId !== this.leaderId) return;
+
+    // Until a round trip has been measured, take the leader's time at face value
+    if (this.samples.length === 0) {
+      this.applyOffset(message.time - localSeconds());
+    }
+
+    const spotlight = message.spotlight &&
+      !this.completedSpotlights.has(`${message.spotlight.photoId}@${message.spotlight.startAt}`)
+      ? message.spotlight
+      : null;
+
+    if (
+      message.pattern !== this.state.leaderPattern ||
+      spotlight?.photoId !== this.state.spotlight?.photoId ||
+      spotlight?.startAt !== this.state.spotlight?.startAt
+    ) {
+      this.setState({ leaderPattern: message.pattern, spotlight });
+    }
+  }
+
+  // Listening-only screens can't send, so they keep taking the leader's time at face value
+  private sendPing() {
+    if (!this.channel || !this.canLead || this.state.isLeader || !this.leaderId || !this.state.connected) return;
+
+    const nonce = nanoid(6);
+    this.pendingPings.set(nonce, localSeconds());
+    this.channel.send({ type: 'broadcast', event: 'ping', payload: { from: this.id, nonce } as PingMessage });
+  }
+
+  private handlePing(message: PingMessage) {
+    if (!this.channel || !this.state.isLeader) return;
+
+    const reply: PongMessage = { from: this.id, to: message.from, nonce: message.nonce, time: this.now() };
+    this.channel.send({ type: 'broadcast', event: 'pong', payload: reply });
+  }
+
+  private handlePong(message: PongMessage) {
+    if (message.to !== this.id || message.from !== this.leaderId) return;
+
+    const sentAt = this.pendingPings.get(message.nonce);
+    if (sentAt === undefined) return;
+    this.pendingPings.delete(message.nonce);
+
+    const receivedAt = localSeconds();
+    const roundTrip = receivedAt - sentAt;
+    if (roundTrip > MAX_ROUND_TRIP_SECONDS) return;
+
+    // Assume the reply spent half the round trip in flight
+    this.samples = [...this.samples, { offset: message.time + roundTrip / 2 - receivedAt, roundTrip }].slice(-OFFSET_SAMPLES);
+    const best = this.samples.reduce((a, b) => (b.roundTrip < a.roundTrip ? b : a));
+    this.applyOffset(best.offset);
+  }
+
+  private applyOffset(offset: number) {
+    this.now(); // settle the slew up to this moment before changing course
+    this.targetOffset = offset;
+    if (Math.abs(offset - this.offset) > SNAP_SECONDS) {
+      console.log('⏱️ PLAYBACK SYNC: Snapping clock by', (offset - this.offset).toFixed(2), 's');
+      this.offset = offset;
+    }
+  }
+}
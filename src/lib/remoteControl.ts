@@ -0,0 +1,189 @@
+// src/lib/remoteControl.ts - Realtime channel between the remote control page and the live displays of a collage
+//
+// The remote broadcasts commands; every display of the collage applies them locally (nothing is saved to the
+// collage settings) and reports back what it is showing, so the remote can reflect the live state.
+// Commands go over a private channel that only the collage owner may send on (see the silent_signal
+// migration); status reports go over a public one.
+import { nanoid } from 'nanoid';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { authorizeRealtime, supabase } from './supabase';
+
+export type RemoteCommand =
+  | { type: 'setPattern'; pattern: string | null } // null hands the pattern back to the collage settings / playlist
+  | { type: 'setAnimationPaused'; paused: boolean }
+  | { type: 'setCameraPreset'; keyframeId: string | null } // a recorded tour keyframe; null releases the camera
+  | { type: 'spotlightPhoto'; photoId: string }
+  | { type: 'setQrVisible'; visible: boolean }
+  | { type: 'requestStatus' };
+
+export type RemoteDisplayStatus = {
+  displayId: string;
+  pattern: string;
+  patternOverridden: boolean;
+  animationPaused: boolean;
+  cameraPresetId: string | null;
+  qrVisible: boolean;
+  photoCount: number;
+};
+
+// Displays repeat their status so a remote that reconnects or misses a message catches up
+const STATUS_HEARTBEAT_MS = 5000;
+// A display that hasn't reported for this long has been closed
+export const DISPLAY_TIMEOUT_MS = 15000;
+
+const createCommandChannel = (collageId: string): RealtimeChannel =>
+  supabase.channel(`remote-${collageId}`, {
+    config: { broadcast: { self: false }, private: true }
+  });
+
+const createStatusChannel = (collageId: string): RealtimeChannel =>
+  supabase.channel(`remote-status-${collageId}`, {
+    config: { broadcast: { self: false } }
+  });
+
+// Viewer side: receives commands and reports status
+export class RemoteDisplay {
+  readonly displayId = nanoid(8);
+  private commandChannel: RealtimeChannel | null = null;
+  private statusChannel: RealtimeChannel | null = null;
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private status: Omit<RemoteDisplayStatus, 'displayId'> | null = null;
+
+  constructor(
+    private readonly collageId: string,
+    private readonly onCommand: (command: RemoteCommand) => void
+  ) {}
+
+  start() {
+    if (this.commandChannel) return;
+
+    const commandChannel = createCommandChannel(this.collageId).on('broadcast', { event: 'command' }, ({ payload }) => {
+      const command = payload as RemoteCommand;
+      if (command.type === 'requestStatus') {
+        this.sendStatus();
+      } else {
+        this.onCommand(command);
+      }
+    });
+    const statusChannel = createStatusChannel(this.collageId);
+    statusChannel.subscribe((status) => {
+      if (status === 'SUBSCRIBED') this.sendStatus();
+    });
+    authorizeRealtime().then(() => {
+      if (this.commandChannel === commandChannel) commandChannel.subscribe();
+    });
+
+    this.commandChannel = commandChannel;
+    this.statusChannel = statusChannel;
+    this.heartbeat = setInterval(() => this.sendStatus(), STATUS_HEARTBEAT_MS);
+  }
+
+  stop() {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.heartbeat = null;
+    this.commandChannel?.unsubscribe();
+    this.commandChannel = null;
+    this.statusChannel?.unsubscribe();
+    this.statusChannel = null;
+  }
+
+  setStatus(status: Omit<RemoteDisplayStatus, 'displayId'>) {
+    this.status = status;
+    this.sendStatus();
+  }
+
+  private sendStatus() {
+    if (!this.statusChannel || !this.status) return;
+    this.statusChannel.send({
+      type: 'broadcast',
+      event: 'status',
+      payload: { ...this.status, displayId: this.displayId } as RemoteDisplayStatus
+    });
+  }
+}
+
+// Remote side: sends commands and tracks every display that reports in
+export class RemoteController {
+  private commandChannel: RealtimeChannel | null = null;
+  private statusChannel: RealtimeChannel | null = null;
+  private displays = new Map<string, { status: RemoteDisplayStatus; seenAt: number }>();
+  private listeners = new Set<() => void>();
+  private sweep: ReturnType<typeof setInterval> | null = null;
+  private connected = false;
+
+  constructor(private readonly collageId: string) {}
+
+  start() {
+    if (this.commandChannel) return;
+
+    const statusChannel = createStatusChannel(this.collageId);
+    statusChannel
+      .on('broadcast', { event: 'status' }, ({ payload }) => {
+        const status = payload as RemoteDisplayStatus;
+        this.displays.set(status.displayId, { status, seenAt: Date.now() });
+        this.notify();
+      })
+      .subscribe();
+
+    const commandChannel = createCommandChannel(this.collageId);
+    authorizeRealtime().then(() => {
+      if (this.commandChannel !== commandChannel) return;
+      commandChannel.subscribe((status) => {
+        this.connected = status === 'SUBSCRIBED';
+        this.notify();
+        if (this.connected) this.send({ type: 'requestStatus' });
+      });
+    });
+
+    this.commandChannel = commandChannel;
+    this.statusChannel = statusChannel;
+    this.sweep = setInterval(() => {
+      const cutoff = Date.now() - DISPLAY_TIMEOUT_MS;
+      let removed = false;
+      this.displays.forEach((entry, id) => {
+        if (entry.seenAt < cutoff) {
+          this.displays.delete(id);
+          removed = true;
+        }
+      });
+      if (removed) this.notify();
+    }, DISPLAY_TIMEOUT_MS / 3);
+  }
+
+  stop() {
+    if (this.sweep) clearInterval(this.sweep);
+    this.sweep = null;
+    this.commandChannel?.unsubscribe();
+    this.commandChannel = null;
+    this.statusChannel?.unsubscribe();
+    this.statusChannel = null;
+    this.connected = false;
+  }
+
+  send(command: RemoteCommand) {
+    if (!this.commandChannel || !this.connected) {
+      console.warn('📱 REMOTE: Not connected, dropping command', command.type);
+      return;
+    }
+    this.commandChannel.send({ type: 'broadcast', event: 'command', payload: command });
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  getDisplays(): RemoteDisplayStatus[] {
+    return Array.from(this.displays.values()).map((entry) => entry.status);
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
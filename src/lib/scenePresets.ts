@@ -0,0 +1,117 @@
+// src/lib/scenePresets.ts - Built-in scene presets and canvas thumbnails for saved ones
+//
+// A built-in preset only sets the fields that make up its look and leaves the rest of the
+// collage's settings (photo count, QR code, camera tour...) alone. Saved presets hold a full
+// settings snapshot and go through the settings schema when applied.
+import { type SceneSettings } from '../store/sceneStore';
+
+export type BuiltInScenePreset = {
+  id: string;
+  name: string;
+  description: string;
+  settings: Partial<SceneSettings>;
+};
+
+export const BUILT_IN_SCENE_PRESETS: BuiltInScenePreset[] = [
+  {
+    id: 'builtin-nightclub',
+    name: 'Nightclub',
+    description: 'Dark room, coloured spotlights, moving wave',
+    settings: {
+      animationPattern: 'wave',
+      animationEnabled: true,
+      animationSpeed: 70,
+      backgroundColor: '#05010d',
+      backgroundGradient: true,
+      backgroundGradientStart: '#12002b',
+      backgroundGradientEnd: '#000000',
+      backgroundGradientAngle: 180,
+      ambientLightIntensity: 0.2,
+      spotlightCount: 4,
+      spotlightIntensity: 180,
+      spotlightColor: '#d946ef',
+      floorEnabled: true,
+      floorColor: '#0a0a0a',
+      floorReflectivity: 0.9,
+      floorMetalness: 0.9,
+      floorRoughness: 0.1,
+      gridEnabled: true,
+      gridColor: '#7c3aed',
+      gridOpacity: 0.6,
+      cameraRotationEnabled: true,
+      cameraRotationSpeed: 0.5
+    }
+  },
+  {
+    id: 'builtin-gallery',
+    name: 'Gallery',
+    description: 'Even light on a still grid wall',
+    settings: {
+      animationPattern: 'grid',
+      animationEnabled: false,
+      backgroundColor: '#1c1c1c',
+      backgroundGradient: true,
+      backgroundGradientStart: '#2a2a2a',
+      backgroundGradientEnd: '#141414',
+      backgroundGradientAngle: 180,
+      ambientLightIntensity: 1.2,
+      spotlightCount: 2,
+      spotlightIntensity: 80,
+      spotlightColor: '#fff7ed',
+      floorEnabled: true,
+      floorColor: '#262626',
+      floorReflectivity: 0.2,
+      floorMetalness: 0.1,
+      floorRoughness: 0.8,
+      gridEnabled: false,
+      photoBrightness: 1.1,
+      cameraRotationEnabled: true,
+      cameraRotationSpeed: 0.1
+    }
+  },
+  {
+    id: 'builtin-wedding',
+    name: 'Wedding',
+    description: 'Warm blush tones and gently floating photos',
+    settings: {
+      animationPattern: 'float',
+      animationEnabled: true,
+      animationSpeed: 30,
+      backgroundColor: '#2b1d1f',
+      backgroundGradient: true,
+      backgroundGradientStart: '#4a2c33',
+      backgroundGradientEnd: '#1a1214',
+      backgroundGradientAngle: 160,
+      ambientLightIntensity: 1.0,
+      spotlightCount: 3,
+      spotlightIntensity: 120,
+      spotlightColor: '#ffe4d6',
+      floorEnabled: true,
+      floorColor: '#3b2a2d',
+      floorReflectivity: 0.5,
+      floorMetalness: 0.3,
+      floorRoughness: 0.4,
+      gridEnabled: false,
+      cameraRotationEnabled: true,
+      cameraRotationSpeed: 0.15
+    }
+  }
+];
+
+const THUMBNAIL_WIDTH = 320;
+
+// Scaled-down JPEG of whatever the scene canvas shows (it keeps its drawing buffer, so this works between frames)
+export const captureSceneThumbnail = (canvas: HTMLCanvasElement): Promise<Blob | null> => {
+  if (!canvas.width || !canvas.height) return Promise.resolve(null);
+
+  const scale = Math.min(1, THUMBNAIL_WIDTH / canvas.width);
+  const thumbnail = document.createElement('canvas');
+  thumbnail.width = Math.round(canvas.width * scale);
+  thumbnail.height = Math.round(canvas.height * scale);
+
+  const context = thumbnail.getContext('2d');
+  if (!context) return Promise.resolve(null);
+  context.drawImage(canvas, 0, 0, thumbnail.width, thumbnail.height);
+
+  return new Promise((resolve) => thumbnail.toBlob(resolve, 'image/jpeg', 0.8));
+};
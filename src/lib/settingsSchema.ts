@@ -0,0 +1,242 @@
+// src/lib/settingsSchema.ts - Versioned schema for collage_settings.settings
+//
+// Stored settings carry a `version`. Loading runs every migration from the stored version up to
+// SETTINGS_VERSION, then validates the result against the defaults in sceneStore: wrong types and
+// unknown enum values fall back to the default, numbers are clamped, and missing fields are filled in.
+// To change the stored shape, bump SETTINGS_VERSION in sceneStore and append a migration here.
+// Settings stored by a newer build are only coerced enough to render: their unknown fields and version
+// are kept, and isNewerSettings() tells writers to leave them alone.
+import {
+  defaultSettings,
+  MAX_PHOTO_COUNT,
+  SETTINGS_VERSION,
+  type CameraKeyframe,
+  type PatternParams,
+  type PatternParamValue,
+  type PatternPlaylistItem,
+  type SceneSettings
+} from '../store/sceneStore';
+
+type RawSettings = Record<string, any>;
+
+// MIGRATIONS[n] upgrades settings stored at version n to version n + 1
+const MIGRATIONS: Array<(settings: RawSettings) => RawSettings> = [
+  // 0 -> 1: the unversioned defaults the collage store used to write
+  (settings) => {
+    const { showFloor, showGrid, ...migrated } = settings;
+
+    if (migrated.animationPattern === 'grid_wall') migrated.animationPattern = 'grid';
+    if (isObject(migrated.patterns) && 'grid_wall' in migrated.patterns) {
+      const { grid_wall, ...patterns } = migrated.patterns;
+      migrated.patterns = { ...patterns, grid: { ...grid_wall, ...patterns.grid } };
+    }
+    // The patterns never read their own blocks back then - only keep `enabled` so the grid falls back
+    // to the top-level wall settings and the rest render with the defaults they were hard-coded to
+    if (isObject(migrated.patterns)) {
+      migrated.patterns = Object.fromEntries(
+        Object.entries(migrated.patterns).map(([id, block]) => [
+          id,
+          isObject(block) ? { enabled: block.enabled === true } : block
+        ])
+      );
+    }
+    if (typeof showFloor === 'boolean' && migrated.floorEnabled === undefined) migrated.floorEnabled = showFloor;
+    if (typeof showGrid === 'boolean' && migrated.gridEnabled === undefined) migrated.gridEnabled = showGrid;
+
+    // These old defaults were on a different scale from the editor's controls - use today's defaults instead
+    const LEGACY_DEFAULTS: RawSettings = { cameraRotationSpeed: 20, spotlightIntensity: 0.8, photoSize: 1.0 };
+    Object.keys(LEGACY_DEFAULTS).forEach((key) => {
+      if (migrated[key] === LEGACY_DEFAULTS[key]) delete migrated[key];
+    });
+
+    return migrated;
+  }
+];
+
+const ENUMS: Partial<Record<keyof SceneSettings, readonly string[]>> = {
+  gridAspectRatioPreset: ['1:1', '4:3', '16:9', '21:9', 'custom'],
+  patternTransitionEasing: ['linear', 'easeInOut', 'easeOut', 'easeOutBack'],
+  patternTransitionStagger: ['none', 'ripple', 'rows', 'random'],
+  photoRenderMode: ['auto', 'standard', 'instanced'],
+  qrOverlayPosition: ['top-left', 'top-right', 'bottom-left', 'bottom-right'],
+  qrOverlayMode: ['always', 'periodic'],
+  duplicatePhotoPolicy: ['allow', 'flag', 'reject']
+};
+
+// Same bounds as the editor's controls
+const RANGES: Partial<Record<keyof SceneSettings, [number, number]>> = {
+  animationSpeed: [0, 100],
+  patternTransitionDuration: [0, 6],
+  photoCount: [1, MAX_PHOTO_COUNT],
+  photoSize: [1, 20],
+  photoBrightness: [0.1, 3],
+  photoSpacing: [0, 1],
+  cameraDistance: [10, 100],
+  cameraHeight: [0, 50],
+  cameraRotationSpeed: [0.1, 2],
+  newPhotoFocusSeconds: [2, 15],
+  qrOverlaySize: [96, 320],
+  qrOverlayShowSeconds: [5, 120],
+  qrOverlayHideSeconds: [5, 300],
+  ambientLightIntensity: [0, 10],
+  spotlightCount: [1, 4],
+  spotlightIntensity: [1, 200],
+  floorOpacity: [0, 1],
+  gridOpacity: [0, 1],
+  backgroundGradientAngle: [0, 360]
+};
+
+const isObject = (value: unknown): value is RawSettings =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isVector3 = (value: unknown): value is [number, number, number] =>
+  Array.isArray(value) && value.length === 3 && value.every(isFiniteNumber);
+
+const isParamValue = (value: unknown): value is PatternParamValue =>
+  isFiniteNumber(value) || typeof value === 'boolean' || typeof value === 'string';
+
+export const createDefaultSettings = (): SceneSettings => JSON.parse(JSON.stringify(defaultSettings));
+
+const validatePatterns = (value: unknown, issues: string[]): Record<string, PatternParams> => {
+  const patterns = createDefaultSettings().patterns;
+  if (!isObject(value)) {
+    if (value !== undefined) issues.push('patterns');
+    return patterns;
+  }
+
+  Object.entries(value).forEach(([id, block]) => {
+    if (!isObject(block)) {
+      issues.push(`patterns.${id}`);
+      return;
+    }
+    const params: PatternParams = { ...patterns[id], enabled: block.enabled === true };
+    Object.entries(block).forEach(([key, param]) => {
+      if (key === 'enabled') return;
+      if (isParamValue(param)) {
+        params[key] = param;
+      } else {
+        issues.push(`patterns.${id}.${key}`);
+      }
+    });
+    patterns[id] = params;
+  });
+
+  return patterns;
+};
+
+const validatePlaylist = (value: unknown, issues: string[]): PatternPlaylistItem[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter((item): item is PatternPlaylistItem => {
+    const valid = isObject(item) &&
+      typeof item.id === 'string' &&
+      typeof item.pattern === 'string' &&
+      isFiniteNumber(item.dwellSeconds) &&
+      isObject(item.overrides);
+    if (!valid) issues.push('patternPlaylist item');
+    return valid;
+  });
+};
+
+const validateCameraTour = (value: unknown, issues: string[]): CameraKeyframe[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter((keyframe): keyframe is CameraKeyframe => {
+    const valid = isObject(keyframe) &&
+      typeof keyframe.id === 'string' &&
+      isVector3(keyframe.position) &&
+      isVector3(keyframe.target) &&
+      isFiniteNumber(keyframe.fov) &&
+      isFiniteNumber(keyframe.travelSeconds) &&
+      isFiniteNumber(keyframe.holdSeconds) &&
+      ENUMS.patternTransitionEasing!.includes(keyframe.easing);
+    if (!valid) issues.push('cameraTour keyframe');
+    return valid;
+  });
+};
+
+// Coerces already-migrated settings into a complete SceneSettings; unknown fields are dropped.
+// Pass `issues` to collect the names of replaced fields.
+export const validateSettings = (raw: RawSettings, issues: string[] = []): SceneSettings => {
+  const defaults = createDefaultSettings();
+  const settings: RawSettings = { ...defaults };
+  const issueCount = issues.length;
+
+  (Object.keys(defaults) as Array<keyof SceneSettings>).forEach((key) => {
+    const value = raw[key];
+    if (value === undefined || key === 'version') return;
+
+    if (key === 'patterns') {
+      settings.patterns = validatePatterns(value, issues);
+    } else if (key === 'patternPlaylist') {
+      settings.patternPlaylist = validatePlaylist(value, issues);
+    } else if (key === 'cameraTour') {
+      settings.cameraTour = validateCameraTour(value, issues);
+    } else if (typeof value !== typeof defaults[key] || (typeof value === 'number' && !Number.isFinite(value))) {
+      issues.push(key);
+    } else if (ENUMS[key] && !ENUMS[key]!.includes(value)) {
+      issues.push(key);
+    } else if (RANGES[key]) {
+      const [min, max] = RANGES[key]!;
+      settings[key] = Math.min(Math.max(min, value), max);
+      if (settings[key] !== value) issues.push(`${key} (clamped)`);
+    } else {
+      settings[key] = value;
+    }
+  });
+
+  if (typeof settings.animationPattern !== 'string' || !settings.animationPattern) {
+    settings.animationPattern = defaults.animationPattern;
+  }
+  settings.photoCount = Math.floor(settings.photoCount);
+
+  if (issues.length > issueCount) {
+    console.warn('⚙️ SETTINGS: Replaced invalid values with defaults:', issues.slice(issueCount).join(', '));
+  }
+
+  return settings as SceneSettings;
+};
+
+// Brings stored settings of any version up to date
+export const migrateSettings = (raw: RawSettings): RawSettings => {
+  const storedVersion = isFiniteNumber(raw.version) ? Math.floor(raw.version) : 0;
+  if (storedVersion > SETTINGS_VERSION) {
+    console.warn(`⚙️ SETTINGS: Stored at version ${storedVersion}, newer than this app (${SETTINGS_VERSION})`);
+    return raw;
+  }
+
+  let settings = raw;
+  for (let version = Math.max(0, storedVersion); version < SETTINGS_VERSION; version++) {
+    console.log(`⚙️ SETTINGS: Migrating from version ${version} to ${version + 1}`);
+    settings = MIGRATIONS[version]({ ...settings });
+  }
+  return settings;
+};
+
+// Stored by a build newer than this one - saving them back would drop whatever this build doesn't know
+export const isNewerSettings = (settings: { version?: unknown }): boolean =>
+  isFiniteNumber(settings.version) && settings.version > SETTINGS_VERSION;
+
+// Entry point for whatever collage_settings.settings holds - null, a legacy object or a current one
+export const loadCollageSettings = (raw: unknown, issues?: string[]): SceneSettings => {
+  if (!isObject(raw)) return createDefaultSettings();
+  const settings = validateSettings(migrateSettings(raw), issues);
+  return isNewerSettings(raw) ? { ...raw, ...settings, version: raw.version } : settings;
+};
+
+const isSameValue = (a: unknown, b: unknown) =>
+  a === b || (typeof a === 'object' && typeof b === 'object' && JSON.stringify(a) === JSON.stringify(b));
+
+// The fields that have to change to get from one set of settings to another
+export const diffSettings = (from: SceneSettings, to: SceneSettings): Partial<SceneSettings> => {
+  const changes: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(from), ...Object.keys(to)]);
+  keys.forEach((key) => {
+    const value = (to as Record<string, unknown>)[key];
+    if (value !== undefined && !isSameValue((from as Record<string, unknown>)[key], value)) {
+      changes[key] = value;
+    }
+  });
+  return changes as Partial<SceneSettings>;
+};
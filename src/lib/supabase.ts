@@ -16,6 +16,11 @@ export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey, {
   }
 });
 
+// Private Realtime channels are authorised with the token Realtime holds when they join, so hand it the
+// current session's first - otherwise a freshly loaded page joins as anonymous. If that fails the join is
+// simply treated as anonymous by the channel's policies.
+export const authorizeRealtime = () => supabase.realtime.setAuth().catch(() => undefined);
+
 // Helper functions
 export const normalizeFileExtension = (url: string): string => {
   if (!url) return '';
@@ -0,0 +1,219 @@
+// src/lib/textureManager.ts - Shared photo textures: one load per URL, thumbnails first, LRU eviction under a GPU budget
+import * as THREE from 'three';
+
+export type TextureTier = 'thumbnail' | 'full';
+
+// Longest edge of each tier in pixels
+const THUMBNAIL_MAX_EDGE = 256;
+const FULL_MAX_EDGE = 2048;
+const DEFAULT_BUDGET_BYTES = 256 * 1024 * 1024;
+
+type TextureEntry = {
+  url: string;
+  source: string; // where the image is downloaded from; a stored thumbnail for the thumbnail tier when there is one
+  tier: TextureTier;
+  texture: THREE.Texture | null;
+  failed: boolean;
+  bytes: number;
+  refCount: number;
+  lastUsed: number;
+};
+
+export type TextureManagerStats = {
+  textures: number;
+  fullResolution: number;
+  bytes: number;
+  budgetBytes: number;
+};
+
+const entryKey = (url: string, tier: TextureTier) => `${tier}|${url}`;
+
+const loadImage = (url: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const image = new Image();
+  image.crossOrigin = 'anonymous';
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error(`Failed to load image: ${url}`));
+  image.src = url;
+});
+
+// Downscales on a canvas when the image is larger than the tier allows
+const createTexture = (image: HTMLImageElement, maxEdge: number): { texture: THREE.Texture; bytes: number } => {
+  const scale = Math.min(1, maxEdge / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(1, Math.round(image.naturalWidth * scale));
+  const height = Math.max(1, Math.round(image.naturalHeight * scale));
+
+  let texture: THREE.Texture;
+  if (scale < 1) {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')!.drawImage(image, 0, 0, width, height);
+    texture = new THREE.CanvasTexture(canvas);
+  } else {
+    texture = new THREE.Texture(image);
+    texture.needsUpdate = true;
+  }
+
+  texture.minFilter = THREE.LinearFilter;
+  texture.magFilter = THREE.LinearFilter;
+  texture.format = THREE.RGBAFormat;
+  texture.generateMipmaps = false;
+
+  return { texture, bytes: width * height * 4 };
+};
+
+class TextureManager {
+  private entries = new Map<string, TextureEntry>();
+  private listeners = new Map<string, Set<() => void>>();
+  private budgetBytes = DEFAULT_BUDGET_BYTES;
+  private usedBytes = 0;
+  private fullResolutionAllowed = true;
+
+  // Loaded texture for the tier, or null while it is still loading (or failed)
+  get(url: string, tier: TextureTier): THREE.Texture | null {
+    const entry = this.entries.get(entryKey(url, tier));
+    if (!entry?.texture) return null;
+    entry.lastUsed = performance.now();
+    return entry.texture;
+  }
+
+  hasFailed(url: string): boolean {
+    return Boolean(this.entries.get(entryKey(url, 'thumbnail'))?.failed);
+  }
+
+  // Keeps a tier loaded while the caller holds it; returns the release function
+  retain(url: string, tier: TextureTier, source: string = url): () => void {
+    const entry = this.ensureEntry(url, tier, source);
+    entry.refCount++;
+    entry.lastUsed = performance.now();
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      entry.refCount = Math.max(0, entry.refCount - 1);
+      entry.lastUsed = performance.now();
+      this.evict();
+    };
+  }
+
+  // Called whenever a tier for the URL finishes loading or is evicted
+  subscribe(url: string, listener: () => void): () => void {
+    let urlListeners = this.listeners.get(url);
+    if (!urlListeners) {
+      urlListeners = new Set();
+      this.listeners.set(url, urlListeners);
+    }
+    urlListeners.add(listener);
+
+    return () => {
+      urlListeners!.delete(listener);
+      if (urlListeners!.size === 0) this.listeners.delete(url);
+    };
+  }
+
+  setBudget(bytes: number) {
+    this.budgetBytes = Math.max(0, bytes);
+    this.evict();
+  }
+
+  // The quality governor turns full resolution off on slow machines; every photo falls back to its thumbnail
+  setFullResolutionAllowed(allowed: boolean) {
+    if (allowed === this.fullResolutionAllowed) return;
+    this.fullResolutionAllowed = allowed;
+    this.listeners.forEach((_, url) => this.notify(url));
+  }
+
+  isFullResolutionAllowed(): boolean {
+    return this.fullResolutionAllowed;
+  }
+
+  getStats(): TextureManagerStats {
+    let textures = 0;
+    let fullResolution = 0;
+    for (const entry of this.entries.values()) {
+      if (!entry.texture) continue;
+      textures++;
+      if (entry.tier === 'full') fullResolution++;
+    }
+    return { textures, fullResolution, bytes: this.usedBytes, budgetBytes: this.budgetBytes };
+  }
+
+  private ensureEntry(url: string, tier: TextureTier, source: string): TextureEntry {
+    const key = entryKey(url, tier);
+    const existing = this.entries.get(key);
+    if (existing) return existing;
+
+    const entry: TextureEntry = {
+      url,
+      source,
+      tier,
+      texture: null,
+      failed: false,
+      bytes: 0,
+      refCount: 0,
+      lastUsed: performance.now()
+    };
+    this.entries.set(key, entry);
+    this.load(entry);
+    return entry;
+  }
+
+  private async load(entry: TextureEntry) {
+    try {
+      const image = await loadImage(entry.source);
+
+      // Dropped while the image was downloading
+      if (this.entries.get(entryKey(entry.url, entry.tier)) !== entry) return;
+
+      const { texture, bytes } = createTexture(image, entry.tier === 'full' ? FULL_MAX_EDGE : THUMBNAIL_MAX_EDGE);
+      entry.texture = texture;
+      entry.bytes = bytes;
+      this.usedBytes += bytes;
+
+      this.notify(entry.url);
+      this.evict();
+    } catch (error) {
+      console.error('❌ TEXTURES:', error);
+      entry.failed = true;
+      this.notify(entry.url);
+    }
+  }
+
+  // Frees least recently used textures until usage fits the budget.
+  // Unused textures go first, then full-resolution textures still on screen (they fall back to thumbnails).
+  // Thumbnails that are on screen are never evicted.
+  private evict() {
+    if (this.usedBytes <= this.budgetBytes) return;
+
+    const candidates = [...this.entries.values()]
+      .filter((entry) => entry.refCount === 0 || entry.tier === 'full')
+      .sort((a, b) => {
+        const aInUse = a.refCount > 0 ? 1 : 0;
+        const bInUse = b.refCount > 0 ? 1 : 0;
+        return aInUse - bInUse || a.lastUsed - b.lastUsed;
+      });
+
+    const evictedUrls = new Set<string>();
+    for (const entry of candidates) {
+      if (this.usedBytes <= this.budgetBytes) break;
+      this.entries.delete(entryKey(entry.url, entry.tier));
+      if (entry.texture) {
+        entry.texture.dispose();
+        this.usedBytes -= entry.bytes;
+      }
+      evictedUrls.add(entry.url);
+    }
+
+    if (evictedUrls.size > 0) {
+      console.log('🧹 TEXTURES: Evicted', evictedUrls.size, 'textures, now using', Math.round(this.usedBytes / 1024 / 1024), 'MB');
+      evictedUrls.forEach((url) => this.notify(url));
+    }
+  }
+
+  private notify(url: string) {
+    this.listeners.get(url)?.forEach((listener) => listener());
+  }
+}
+
+export const textureManager = new TextureManager();
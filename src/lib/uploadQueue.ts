@@ -0,0 +1,366 @@
+// src/lib/uploadQueue.ts - Persistent queue behind the photo uploader
+//
+// Picked files are written to IndexedDB straight away, so a reload, a closed tab or a Wi-Fi drop doesn't lose
+// them; the queue picks them up again the next time an uploader for the collage is opened. A few uploads run
+// at once. Network failures are retried with exponential backoff and wait for the connection to come back,
+// anything else (an unreadable image, a rejected duplicate) stops with an error until the guest retries it.
+import { useCollageStore } from '../store/collageStore';
+import { isHeicFile, prepareImageForUpload, type ImageProcessingOptions } from './imageProcessing';
+
+export type QueuedUploadStatus =
+  | 'queued'      // waiting for a free slot
+  | 'converting'  // HEIC being converted
+  | 'processing'  // being resized
+  | 'uploading'
+  | 'retrying'    // failed on the network, waits for the next attempt
+  | 'offline'     // waits for the connection to come back
+  | 'success'
+  | 'error';      // failed for good - needs a manual retry
+
+export type QueuedUpload = {
+  id: string; // also becomes the photos row id, which makes retries safe
+  collageId: string;
+  name: string;
+  originalSize: number;
+  file: File; // the original until it's processed, then what gets stored
+  processed: boolean;
+  thumbnail: Blob | null;
+  perceptualHash: string | null;
+  uploadSize: number | null;
+  imageProcessing?: Partial<ImageProcessingOptions>;
+  status: QueuedUploadStatus;
+  progress: number;
+  attempts: number;
+  nextAttemptAt: number | null;
+  error: string | null;
+  createdAt: number;
+};
+
+const MAX_CONCURRENT = 3;
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 60000;
+// Statuses that only make sense while this tab is working on the upload
+const IN_FLIGHT: QueuedUploadStatus[] = ['converting', 'processing', 'uploading'];
+
+const DB_NAME = 'photo-upload-queue';
+const DB_VERSION = 1;
+const STORE_NAME = 'uploads';
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+// null when IndexedDB is unavailable (e.g. some private browsing modes) - the queue then only lives in memory
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('collageId', 'collageId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('⚠️ UPLOAD QUEUE: IndexedDB unavailable, uploads will not survive a reload:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  if (!db) return null;
+  try {
+    return await promisify(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  } catch (error) {
+    console.warn('⚠️ UPLOAD QUEUE: IndexedDB request failed:', error);
+    return null;
+  }
+};
+
+// Network trouble is worth retrying; validation errors and rejections are not
+const isRetryableError = (error: any) => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const status = Number(error?.statusCode ?? error?.status);
+  if (status) return status === 408 || status === 429 || status >= 500;
+  return /fetch|network|timed? ?out|load failed|connection/i.test(error?.message || String(error));
+};
+
+const retryDelay = (attempts: number) => {
+  const delay = Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** (attempts - 1));
+  // Jitter keeps a room full of phones from retrying in lockstep when the Wi-Fi comes back
+  return delay / 2 + Math.random() * delay / 2;
+};
+
+class UploadQueue {
+  private items = new Map<string, QueuedUpload>();
+  private listeners = new Set<() => void>();
+  private active = new Set<string>();
+  private loadedCollages = new Set<string>();
+  private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+  private progressTimers = new Map<string, ReturnType<typeof setInterval>>();
+
+  constructor() {
+    if (typeof window === 'undefined') return;
+    window.addEventListener('online', () => {
+      console.log('📶 UPLOAD QUEUE: Back online, resuming uploads');
+      this.items.forEach((item) => {
+        if (item.status === 'offline' || item.status === 'retrying') {
+          this.update(item.id, { status: 'queued', nextAttemptAt: null });
+        }
+      });
+      this.pump();
+    });
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getItems(collageId: string) {
+    return Array.from(this.items.values())
+      .filter((item) => item.collageId === collageId)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  // Picks up uploads of this collage left over from an earlier visit
+  async resume(collageId: string) {
+    if (this.loadedCollages.has(collageId)) return;
+    this.loadedCollages.add(collageId);
+
+    const stored = await withStore<QueuedUpload[]>('readonly', (store) => store.index('collageId').getAll(collageId));
+    if (!stored?.length) return;
+
+    stored.forEach((item) => {
+      if (this.items.has(item.id)) return;
+      // Whatever was running when the page went away starts over; finished steps are kept
+      const interrupted = IN_FLIGHT.includes(item.status) || item.status === 'offline' || item.status === 'retrying';
+      this.items.set(item.id, interrupted ? { ...item, status: 'queued', progress: 0, nextAttemptAt: null } : item);
+    });
+    console.log(`📤 UPLOAD QUEUE: Resumed ${stored.length} upload(s) for collage`, collageId);
+    this.notify();
+    this.pump();
+  }
+
+  async add(collageId: string, files: File[], imageProcessing?: Partial<ImageProcessingOptions>) {
+    const now = Date.now();
+    const added = files.map((file, index): QueuedUpload => ({
+      id: crypto.randomUUID(),
+      collageId,
+      name: file.name,
+      originalSize: file.size,
+      file,
+      processed: false,
+      thumbnail: null,
+      perceptualHash: null,
+      uploadSize: null,
+      imageProcessing,
+      status: 'queued',
+      progress: 0,
+      attempts: 0,
+      nextAttemptAt: null,
+      error: null,
+      createdAt: now + index
+    }));
+
+    added.forEach((item) => this.items.set(item.id, item));
+    this.notify();
+    await Promise.all(added.map((item) => this.persist(item.id)));
+    this.pump();
+  }
+
+  retry(id: string) {
+    const item = this.items.get(id);
+    if (!item || this.active.has(id) || item.status === 'success') return;
+    this.update(id, { status: 'queued', attempts: 0, nextAttemptAt: null, error: null, progress: 0 }, true);
+    this.pump();
+  }
+
+  // Uploads that are running can't be called back, so only waiting or finished ones can be removed
+  remove(id: string) {
+    if (this.active.has(id)) return;
+    this.items.delete(id);
+    this.notify();
+    withStore('readwrite', (store) => store.delete(id));
+  }
+
+  clearCompleted(collageId: string) {
+    this.getItems(collageId)
+      .filter((item) => item.status === 'success')
+      .forEach((item) => this.items.delete(item.id));
+    this.notify();
+  }
+
+  isActive(id: string) {
+    return this.active.has(id);
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private update(id: string, changes: Partial<QueuedUpload>, persist = false) {
+    const item = this.items.get(id);
+    if (!item) return;
+    this.items.set(id, { ...item, ...changes });
+    this.notify();
+    if (persist) this.persist(id);
+  }
+
+  private async persist(id: string) {
+    const item = this.items.get(id);
+    if (item) await withStore('readwrite', (store) => store.put(item));
+  }
+
+  // Starts whatever can run now and sets a timer for the next retry that is due
+  private pump() {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+
+    const now = Date.now();
+    const waiting = Array.from(this.items.values())
+      .filter((item) => !this.active.has(item.id))
+      .sort((a, b) => a.createdAt - b.createdAt);
+
+    for (const item of waiting) {
+      if (this.active.size >= MAX_CONCURRENT) break;
+      const due = item.status === 'queued' ||
+        ((item.status === 'retrying' || item.status === 'offline') && (item.nextAttemptAt ?? 0) <= now);
+      if (due) this.run(item.id);
+    }
+
+    const nextAttempt = Math.min(...waiting
+      .filter((item) => !this.active.has(item.id) && (item.status === 'retrying' || item.status === 'offline'))
+      .map((item) => item.nextAttemptAt ?? now));
+    if (Number.isFinite(nextAttempt)) {
+      this.wakeTimer = setTimeout(() => this.pump(), Math.max(0, nextAttempt - now));
+    }
+  }
+
+  private async run(id: string) {
+    this.active.add(id);
+    try {
+      const ready = await this.process(id);
+      if (ready) await this.upload(id);
+    } finally {
+      this.stopProgress(id);
+      this.active.delete(id);
+      this.pump();
+    }
+  }
+
+  // Resizes the original once; the result replaces it in storage so retries don't redo the work
+  private async process(id: string) {
+    const item = this.items.get(id);
+    if (!item) return false;
+    if (item.processed) return true;
+
+    try {
+      const processed = await prepareImageForUpload(item.file, item.imageProcessing, (stage) => {
+        this.update(id, stage === 'converting'
+          ? { status: 'converting', progress: 5 }
+          : { status: 'processing', progress: isHeicFile(item.file) ? 30 : 10 });
+      });
+      this.update(id, {
+        file: processed.file,
+        thumbnail: processed.thumbnail,
+        perceptualHash: processed.perceptualHash,
+        uploadSize: processed.file.size,
+        processed: true
+      }, true);
+      return true;
+    } catch (error: any) {
+      console.error('❌ UPLOAD QUEUE: Could not prepare', item.name, error);
+      this.update(id, { status: 'error', progress: 0, error: error.message || 'This image could not be processed' }, true);
+      return false;
+    }
+  }
+
+  private async upload(id: string) {
+    const item = this.items.get(id);
+    if (!item) return;
+
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      // No point trying - the online event starts it again; the timer is a fallback for browsers that lie
+      this.update(id, { status: 'offline', progress: 0, nextAttemptAt: Date.now() + MAX_RETRY_MS }, true);
+      return;
+    }
+
+    this.update(id, { status: 'uploading', progress: 40, error: null });
+    this.startProgress(id);
+
+    try {
+      await useCollageStore.getState().uploadPhoto(item.collageId, item.file, {
+        thumbnail: item.thumbnail,
+        perceptualHash: item.perceptualHash,
+        photoId: item.id
+      });
+      this.update(id, { status: 'success', progress: 100, nextAttemptAt: null });
+      // Done - nothing left to resume
+      withStore('readwrite', (store) => store.delete(id));
+    } catch (error: any) {
+      const message = error?.message || 'Upload failed';
+      const offline = typeof navigator !== 'undefined' && !navigator.onLine;
+
+      if (!isRetryableError(error)) {
+        console.error('❌ UPLOAD QUEUE: Upload failed for good:', item.name, error);
+        this.update(id, { status: 'error', progress: 0, error: message }, true);
+        return;
+      }
+
+      // Time spent offline doesn't use up attempts
+      const attempts = offline ? item.attempts : item.attempts + 1;
+      if (attempts >= MAX_ATTEMPTS) {
+        console.error(`❌ UPLOAD QUEUE: Giving up on ${item.name} after ${attempts} attempts:`, error);
+        this.update(id, {
+          status: 'error',
+          progress: 0,
+          attempts,
+          error: `Upload failed after ${attempts} attempts (${message}). Check your connection and retry.`
+        }, true);
+        return;
+      }
+
+      const delay = offline ? MAX_RETRY_MS : retryDelay(attempts);
+      console.warn(`🔁 UPLOAD QUEUE: ${item.name} failed (${message}), retrying in ${Math.round(delay / 1000)}s`);
+      this.update(id, {
+        status: offline ? 'offline' : 'retrying',
+        progress: 0,
+        attempts,
+        error: message,
+        nextAttemptAt: Date.now() + delay
+      }, true);
+    }
+  }
+
+  // The storage API doesn't report upload progress, so the bar creeps towards 90% until it answers
+  private startProgress(id: string) {
+    this.stopProgress(id);
+    this.progressTimers.set(id, setInterval(() => {
+      const item = this.items.get(id);
+      if (item?.status === 'uploading') this.update(id, { progress: Math.min(item.progress + 10, 90) });
+    }, 300));
+  }
+
+  private stopProgress(id: string) {
+    const timer = this.progressTimers.get(id);
+    if (timer) clearInterval(timer);
+    this.progressTimers.delete(id);
+  }
+}
+
+export const uploadQueue = new UploadQueue();
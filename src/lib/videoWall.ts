@@ -0,0 +1,90 @@
+// src/lib/videoWall.ts - Video wall tile configuration read from the viewer URL
+//
+// Each screen opens the same collage with its place in the wall, e.g. the middle of a 3×3 TV array:
+//   /collage/ABC123?wall=3x3&tile=2,2&bezel=0.03
+// wall  - columns x rows of screens
+// tile  - this screen's column,row counted from 1 at the top left
+// bezel - share of a screen's width (and optionally height, "0.03,0.05") hidden behind the frames between two screens
+// Tiles always join the collage's shared playback clock so their parts of the scene stay in step.
+
+export type VideoWallConfig = {
+  columns: number;
+  rows: number;
+  column: number; // 0-based
+  row: number;    // 0-based
+  bezelX: number;
+  bezelY: number;
+};
+
+export type VideoWallViewOffset = {
+  fullWidth: number;
+  fullHeight: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+const MAX_WALL_SIZE = 16;
+const MAX_BEZEL = 0.5;
+
+const parsePair = (value: string, separator: RegExp): [number, number] | null => {
+  const parts = value.split(separator).map((part) => Number(part.trim()));
+  if (parts.length !== 2 || parts.some((part) => !Number.isInteger(part))) return null;
+  return [parts[0], parts[1]];
+};
+
+export const parseVideoWallParams = (search: string | URLSearchParams): VideoWallConfig | null => {
+  const params = typeof search === 'string' ? new URLSearchParams(search) : search;
+  const wall = params.get('wall');
+  if (!wall) return null;
+
+  const size = parsePair(wall, /x/i);
+  const tile = parsePair(params.get('tile') || '1,1', /,/);
+  if (!size || !tile) {
+    console.warn('🧱 VIDEO WALL: Expected wall=COLSxROWS and tile=COL,ROW, got', wall, params.get('tile'));
+    return null;
+  }
+
+  const [columns, rows] = size;
+  const [column, row] = tile;
+  if (columns < 1 || rows < 1 || columns > MAX_WALL_SIZE || rows > MAX_WALL_SIZE ||
+      column < 1 || row < 1 || column > columns || row > rows) {
+    console.warn('🧱 VIDEO WALL: Tile', tile, 'is outside a', size, 'wall');
+    return null;
+  }
+
+  const bezel = (params.get('bezel') || '0').split(',').map(Number);
+  const clampBezel = (value: number | undefined) =>
+    Number.isFinite(value) ? Math.min(MAX_BEZEL, Math.max(0, value as number)) : 0;
+  const bezelX = clampBezel(bezel[0]);
+  const bezelY = bezel.length > 1 ? clampBezel(bezel[1]) : bezelX;
+
+  return { columns, rows, column: column - 1, row: row - 1, bezelX, bezelY };
+};
+
+// Where this screen's pixels sit inside the whole wall, assuming every screen matches this one's size.
+// The bezel gaps are counted as part of the wall so lines stay straight across the frames.
+export const getVideoWallViewOffset = (config: VideoWallConfig, width: number, height: number): VideoWallViewOffset => {
+  const gapX = width * config.bezelX;
+  const gapY = height * config.bezelY;
+
+  return {
+    fullWidth: config.columns * width + (config.columns - 1) * gapX,
+    fullHeight: config.rows * height + (config.rows - 1) * gapY,
+    x: config.column * (width + gapX),
+    y: config.row * (height + gapY),
+    width,
+    height
+  };
+};
+
+export const describeVideoWallTile = (config: VideoWallConfig): string =>
+  `Screen ${config.column + 1},${config.row + 1} of ${config.columns}×${config.rows}`;
+
+// The QR code belongs in a corner of the whole wall, not on every screen
+export const isQrOnWallTile = (config: VideoWallConfig, position: string = 'bottom-right'): boolean => {
+  const column = position.endsWith('left') ? 0 : config.columns - 1;
+  const row = position.startsWith('top') ? 0 : config.rows - 1;
+  return config.column === column && config.row === row;
+};
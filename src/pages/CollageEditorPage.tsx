@@ -1,17 +1,24 @@
 // src/pages/CollageEditorPage.tsx - UPDATED: Left-side settings panel with improved styling
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useState, useRef, useMemo } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
-import { ChevronLeft, Settings, Image, Shield } from 'lucide-react';
-import { useCollageStore } from '../store/collageStore';
-import { useSceneStore } from '../store/sceneStore';
+import { ChevronLeft, Settings, Image, Shield, Smartphone, Bookmark, Download, Upload } from 'lucide-react';
+import { isPendingDuplicate, useCollageStore } from '../store/collageStore';
+import { useSceneStore, type SceneSettings as SceneSettingsType } from '../store/sceneStore';
+import { createDefaultSettings, diffSettings, isNewerSettings } from '../lib/settingsSchema';
+import { useSettingsHistory } from '../hooks/useSettingsHistory';
+import { captureSceneThumbnail } from '../lib/scenePresets';
+import { measureDisplayRefresh } from '../lib/displayRefresh';
+import { downloadCollageConfig, readCollageConfigFile, type ParsedCollageConfig } from '../lib/collageConfig';
 import { ErrorBoundary } from 'react-error-boundary';
 import Layout from '../components/layout/Layout';
 import SceneSettings from '../components/collage/SceneSettings';
 import CollageScene from '../components/three/CollageScene';
 import PhotoUploader from '../components/collage/PhotoUploader';
 import CollagePhotos from '../components/collage/CollagePhotos';
+import ScenePresetsPanel from '../components/collage/ScenePresetsPanel';
+import CollageConfigImportModal from '../components/collage/CollageConfigImportModal';
 
-type Tab = 'settings' | 'photos';
+type Tab = 'settings' | 'photos' | 'presets';
 
 // Error fallback component for 3D scene errors
 function SceneErrorFallback({ error, resetErrorBoundary }: { error: Error; resetErrorBoundary: () => void }) {
@@ -45,6 +52,7 @@ const CollageEditorPage: React.FC = () => {
     photos, 
     fetchCollageById, 
     updateCollageSettings, 
+    updateCollageName,
     loading, 
     error, 
     setupRealtimeSubscription, 
@@ -57,9 +65,15 @@ const CollageEditorPage: React.FC = () => {
   const [activeTab, setActiveTab] = useState<Tab>('settings');
   const [saving, setSaving] = useState(false);
   const saveTimeoutRef = useRef<NodeJS.Timeout>();
+  const sceneContainerRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<{ config: ParsedCollageConfig; fileName: string } | null>(null);
 
-  // SAFETY: Ensure photos is always an array
-  const safePhotos = Array.isArray(photos) ? photos : [];
+  // SAFETY: Ensure photos is always an array; the preview leaves out flagged copies like the live wall does
+  const safePhotos = useMemo(
+    () => (Array.isArray(photos) ? photos : []).filter((photo) => !isPendingDuplicate(photo)),
+    [photos]
+  );
 
   // DEBUG: Log settings comparison
   useEffect(() => {
@@ -71,6 +85,8 @@ const CollageEditorPage: React.FC = () => {
 
   // Load collage data and sync settings
   useEffect(() => {
+    // Timed while the collage is still loading, before the scene renders
+    measureDisplayRefresh();
     if (id) {
       console.log('🎨 EDITOR: Loading collage:', id);
       fetchCollageById(id);
@@ -83,17 +99,17 @@ const CollageEditorPage: React.FC = () => {
     };
   }, [id, fetchCollageById, setupRealtimeSubscription, cleanupRealtimeSubscription]);
 
-  // Sync persisted collage settings to scene store when collage loads
-  useEffect(() => {
-    if (currentCollage?.settings) {
-      console.log('🎨 EDITOR: Syncing collage settings to scene store:', currentCollage.settings);
-      updateSettings(currentCollage.settings);
-    }
-  }, [currentCollage?.settings, updateSettings]);
+  // Edits not yet written to collage_settings; every edit in the debounce window is saved together
+  const pendingSettingsRef = useRef<Partial<SceneSettingsType>>({});
+
+  // Saved by a newer build (e.g. during a deploy) - editing here would write them back without its fields
+  const settingsReadOnly = currentCollage ? isNewerSettings(currentCollage.settings) : false;
 
-  // Auto-save settings with debounce
-  const handleSettingsChange = (newSettings: Partial<any>) => {
+  // Applies changes locally and schedules the auto-save - shared by edits, undo and redo
+  const applySettingsChange = (newSettings: Partial<SceneSettingsType>) => {
+    if (settingsReadOnly) return;
     updateSettings(newSettings);
+    pendingSettingsRef.current = { ...pendingSettingsRef.current, ...newSettings };
     
     // Clear existing timeout
     if (saveTimeoutRef.current) {
@@ -104,11 +120,15 @@ const CollageEditorPage: React.FC = () => {
     setSaving(true);
     saveTimeoutRef.current = setTimeout(async () => {
       if (currentCollage?.id) {
+        const changes = pendingSettingsRef.current;
+        pendingSettingsRef.current = {};
         try {
-          await updateCollageSettings(currentCollage.id, newSettings);
+          await updateCollageSettings(currentCollage.id, changes);
           console.log('✅ Settings auto-saved successfully');
         } catch (error) {
           console.error('❌ Failed to save settings:', error);
+          // Keep the failed changes so the next save retries them
+          pendingSettingsRef.current = { ...changes, ...pendingSettingsRef.current };
         } finally {
           setSaving(false);
         }
@@ -116,6 +136,47 @@ const CollageEditorPage: React.FC = () => {
     }, 1000); // 1 second debounce
   };
 
+  const history = useSettingsHistory(settings, applySettingsChange);
+
+  // Sync persisted collage settings to scene store when a collage loads. Saves don't sync back,
+  // so a save finishing mid-edit can't overwrite newer local changes.
+  useEffect(() => {
+    if (currentCollage?.settings) {
+      console.log('🎨 EDITOR: Syncing collage settings to scene store:', currentCollage.settings);
+      updateSettings(currentCollage.settings);
+      history.clear();
+    }
+  }, [currentCollage?.id, updateSettings, history.clear]);
+
+  // Auto-save settings with debounce; `debounce` marks slider drags, which are undone as one step
+  const handleSettingsChange = (newSettings: Partial<SceneSettingsType>, debounce?: boolean) => {
+    if (settingsReadOnly) return;
+    history.record(newSettings, debounce);
+    applySettingsChange(newSettings);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const target = event.target as HTMLElement;
+      const isTextField = target?.tagName === 'TEXTAREA' || target?.isContentEditable ||
+        (target?.tagName === 'INPUT' && !['range', 'checkbox', 'radio', 'color'].includes((target as HTMLInputElement).type));
+      if (isTextField) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        history.undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        history.redo();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [history.undo, history.redo]);
+
   // Cleanup timeout on unmount
   useEffect(() => {
     return () => {
@@ -133,65 +194,56 @@ const CollageEditorPage: React.FC = () => {
     }
   };
 
+  const captureThumbnail = async () => {
+    const canvas = sceneContainerRef.current?.querySelector('canvas');
+    return canvas ? captureSceneThumbnail(canvas) : null;
+  };
+
+  const handleExportConfig = () => {
+    if (!currentCollage) return;
+    downloadCollageConfig(currentCollage.name, settings);
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const config = await readCollageConfigFile(file);
+      console.log('📥 EDITOR: Read configuration file', file.name, 'version', config.schemaVersion);
+      setPendingImport({ config, fileName: file.name });
+    } catch (error: any) {
+      console.error('❌ Failed to read configuration file:', error);
+      alert(error.message || 'Failed to read the configuration file');
+    }
+  };
+
+  // Applied as one edit, so a single undo takes the whole import back
+  const handleConfirmImport = async ({ includeName }: { includeName: boolean }) => {
+    if (!pendingImport || !currentCollage) return;
+    const { config } = pendingImport;
+    setPendingImport(null);
+
+    const changes = diffSettings(settings, config.settings);
+    if (Object.keys(changes).length > 0) {
+      handleSettingsChange(changes);
+    }
+    if (includeName && config.name) {
+      try {
+        await updateCollageName(currentCollage.id, config.name);
+      } catch (error) {
+        console.error('❌ Failed to rename collage on import:', error);
+      }
+    }
+  };
+
   // Reset settings to defaults
   const handleResetSettings = () => {
     if (!currentCollage) return;
     
-    const defaultSettings = {
-      animationPattern: 'grid' as const,
-      animationSpeed: 50,
-      animationEnabled: true,
-      photoCount: 50,
-      backgroundColor: '#000000',
-      backgroundGradient: false,
-      backgroundGradientStart: '#000000',
-      backgroundGradientEnd: '#1a1a1a',
-      backgroundGradientAngle: 180,
-      emptySlotColor: '#1A1A1A',
-      cameraDistance: 25,
-      cameraRotationEnabled: true,
-      cameraRotationSpeed: 0.2,
-      cameraHeight: 10,
-      cameraEnabled: true,
-      spotlightCount: 4,
-      spotlightHeight: 30,
-      spotlightDistance: 40,
-      spotlightAngle: Math.PI / 6,
-      spotlightIntensity: 2,
-      spotlightColor: '#ffffff',
-      ambientLightIntensity: 0.4,
-      ambientLightColor: '#404040',
-      floorEnabled: true,
-      floorSize: 200,
-      floorColor: '#1A1A1A',
-      floorOpacity: 1,
-      floorMetalness: 0.5,
-      floorRoughness: 0.5,
-      gridEnabled: false,
-      gridSize: 100,
-      gridDivisions: 20,
-      gridColor: '#404040',
-      gridOpacity: 0.5,
-      photoSize: 4.0,
-      photoBrightness: 1.0,
-      photoSpacing: 1.2,
-      photoRotation: 0,
-      photoTilt: 0,
-      photoDepth: 0.1,
-      shadowsEnabled: true,
-      shadowQuality: 'medium' as const,
-      fogEnabled: false,
-      fogColor: '#000000',
-      fogNear: 50,
-      fogFar: 200,
-      postProcessingEnabled: false,
-      bloomEnabled: false,
-      bloomStrength: 0.5,
-      bloomRadius: 0.4,
-      bloomThreshold: 0.9,
-    };
+    const defaultSettings = createDefaultSettings();
     
-    updateSettings(defaultSettings);
     handleSettingsChange(defaultSettings);
   };
 
@@ -264,6 +316,31 @@ const CollageEditorPage: React.FC = () => {
               </div>
               
               <div className="flex items-center space-x-4">
+                <div className="flex items-center space-x-1">
+                  <button
+                    onClick={handleExportConfig}
+                    title="Download this collage's configuration as JSON"
+                    className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-md text-sm transition-colors flex items-center space-x-2"
+                  >
+                    <Download className="w-4 h-4" />
+                    <span>Export</span>
+                  </button>
+                  <button
+                    onClick={() => importInputRef.current?.click()}
+                    title="Apply a configuration file to this collage"
+                    className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-md text-sm transition-colors flex items-center space-x-2"
+                  >
+                    <Upload className="w-4 h-4" />
+                    <span>Import</span>
+                  </button>
+                  <input
+                    ref={importInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    onChange={handleImportFile}
+                    className="hidden"
+                  />
+                </div>
                 <Link
                   to={`/collage/${currentCollage.code}`}
                   className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-sm transition-colors"
@@ -283,6 +360,13 @@ const CollageEditorPage: React.FC = () => {
                 >
                   📸 Photobooth
                 </Link>
+                <Link
+                  to={`/dashboard/collage/${currentCollage.id}/remote`}
+                  className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-md text-sm transition-colors flex items-center space-x-2"
+                >
+                  <Smartphone className="w-4 h-4" />
+                  <span>Remote</span>
+                </Link>
               </div>
             </div>
           </div>
@@ -326,6 +410,17 @@ const CollageEditorPage: React.FC = () => {
                   <Image className="w-3 h-3" />
                   <span>Photos</span>
                 </button>
+                <button
+                  onClick={() => setActiveTab('presets')}
+                  className={`flex-1 px-3 py-2 text-xs font-medium rounded transition-colors flex items-center justify-center space-x-1 ${
+                    activeTab === 'presets'
+                      ? 'bg-purple-600 text-white'
+                      : 'text-gray-400 hover:text-white hover:bg-gray-700'
+                  }`}
+                >
+                  <Bookmark className="w-3 h-3" />
+                  <span>Presets</span>
+                </button>
               </div>
             </div>
 
@@ -333,10 +428,29 @@ const CollageEditorPage: React.FC = () => {
             <div className="flex-1 overflow-auto">
               {activeTab === 'settings' ? (
                 <div className="p-4">
-                  <SceneSettings
+                  {settingsReadOnly && (
+                    <div className="mb-4 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded text-sm text-yellow-300">
+                      These settings were saved by a newer version of the app. Reload the page to edit them.
+                    </div>
+                  )}
+                  <fieldset disabled={settingsReadOnly} className={settingsReadOnly ? 'opacity-60' : undefined}>
+                    <SceneSettings
+                      settings={settings}
+                      onSettingsChange={handleSettingsChange}
+                      onReset={handleResetSettings}
+                      onUndo={history.undo}
+                      onRedo={history.redo}
+                      canUndo={history.canUndo}
+                      canRedo={history.canRedo}
+                    />
+                  </fieldset>
+                </div>
+              ) : activeTab === 'presets' ? (
+                <div className="p-4">
+                  <ScenePresetsPanel
                     settings={settings}
-                    onSettingsChange={handleSettingsChange}
-                    onReset={handleResetSettings}
+                    onApply={handleSettingsChange}
+                    captureThumbnail={captureThumbnail}
                   />
                 </div>
               ) : (
@@ -370,7 +484,7 @@ const CollageEditorPage: React.FC = () => {
 
           {/* RIGHT SIDE - Main 3D Scene */}
           <div className="flex-1 relative">
-            <div className="bg-gray-900/30 backdrop-blur-sm border border-gray-700/50 rounded-lg h-full overflow-hidden">
+            <div ref={sceneContainerRef} className="bg-gray-900/30 backdrop-blur-sm border border-gray-700/50 rounded-lg h-full overflow-hidden">
               <ErrorBoundary 
                 FallbackComponent={SceneErrorFallback}
                 resetKeys={[currentCollage.id, settings, safePhotos.length]}
@@ -385,6 +499,17 @@ const CollageEditorPage: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {pendingImport && (
+        <CollageConfigImportModal
+          config={pendingImport.config}
+          fileName={pendingImport.fileName}
+          currentName={currentCollage.name}
+          currentSettings={settings}
+          onConfirm={handleConfirmImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
     </Layout>
   );
 };
@@ -1,8 +1,10 @@
 // src/pages/CollageModerationPage.tsx - ENHANCED VERSION WITH BETTER DELETION
 import React, { useEffect, useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { ChevronLeft, Shield, RefreshCw, Trash2, Eye, AlertCircle } from 'lucide-react';
+import { ChevronLeft, Shield, RefreshCw, Trash2, Eye, AlertCircle, Copy, Check } from 'lucide-react';
 import { useCollageStore } from '../store/collageStore';
+import { type SceneSettings } from '../store/sceneStore';
+import { isNewerSettings } from '../lib/settingsSchema';
 import Layout from '../components/layout/Layout';
 
 const CollageModerationPage: React.FC = () => {
@@ -12,6 +14,8 @@ const CollageModerationPage: React.FC = () => {
     photos, 
     fetchCollageById, 
     deletePhoto, 
+    clearDuplicateFlag,
+    updateCollageSettings,
     loading, 
     error, 
     refreshPhotos,
@@ -27,6 +31,12 @@ const CollageModerationPage: React.FC = () => {
   const [fetchError, setFetchError] = useState<string | null>(null);
   const [deletingPhotos, setDeletingPhotos] = useState<Set<string>>(new Set());
   const [selectedPhoto, setSelectedPhoto] = useState<any>(null);
+  const [showDuplicatesOnly, setShowDuplicatesOnly] = useState(false);
+  const [savingPolicy, setSavingPolicy] = useState(false);
+
+  const flaggedPhotos = safePhotos.filter(p => p.duplicate_of);
+  const visiblePhotos = showDuplicatesOnly ? flaggedPhotos : safePhotos;
+  const findPhoto = (photoId?: string | null) => safePhotos.find(p => p.id === photoId);
 
   // DEBUG: Log photos changes in moderation
   useEffect(() => {
@@ -97,6 +107,36 @@ const CollageModerationPage: React.FC = () => {
     }
   };
 
+  const handleKeepPhoto = async (photoId: string) => {
+    try {
+      await clearDuplicateFlag(photoId);
+      console.log('✅ MODERATION: Kept flagged photo:', photoId);
+      if (selectedPhoto?.id === photoId) {
+        setSelectedPhoto({ ...selectedPhoto, duplicate_of: null });
+      }
+    } catch (error: any) {
+      alert(`Failed to update photo: ${error.message}`);
+    }
+  };
+
+  const handlePolicyChange = async (policy: SceneSettings['duplicatePhotoPolicy']) => {
+    if (!currentCollage) return;
+    setSavingPolicy(true);
+    try {
+      await updateCollageSettings(currentCollage.id, { duplicatePhotoPolicy: policy });
+      console.log('🛡️ MODERATION: Duplicate policy set to', policy);
+    } catch (error: any) {
+      alert(`Failed to save duplicate setting: ${error.message}`);
+    } finally {
+      setSavingPolicy(false);
+    }
+  };
+
+  // Leave the duplicates view once the last flagged photo is dealt with
+  useEffect(() => {
+    if (showDuplicatesOnly && flaggedPhotos.length === 0) setShowDuplicatesOnly(false);
+  }, [showDuplicatesOnly, flaggedPhotos.length]);
+
   const openPhotoPreview = (photo: any) => {
     setSelectedPhoto(photo);
   };
@@ -173,6 +213,20 @@ const CollageModerationPage: React.FC = () => {
           </div>
           
           <div className="flex items-center space-x-2">
+            <label className="flex items-center space-x-2 text-sm text-gray-300" title="What happens when a guest uploads a photo that looks like one already in this collage">
+              <Copy className="w-4 h-4 text-gray-400" />
+              <select
+                value={currentCollage.settings.duplicatePhotoPolicy}
+                onChange={(e) => handlePolicyChange(e.target.value as SceneSettings['duplicatePhotoPolicy'])}
+                disabled={savingPolicy || isNewerSettings(currentCollage.settings)}
+                className="bg-gray-800 border border-gray-700 rounded-md px-2 py-2 text-white text-sm focus:outline-none focus:border-purple-500 disabled:opacity-50"
+              >
+                <option value="allow">Duplicates: Allow</option>
+                <option value="flag">Duplicates: Flag for review</option>
+                <option value="reject">Duplicates: Reject</option>
+              </select>
+            </label>
+
             <button
               onClick={handleRefresh}
               disabled={isRefreshing}
@@ -220,6 +274,24 @@ const CollageModerationPage: React.FC = () => {
           </div>
         </div>
 
+        {/* Duplicate Review */}
+        {flaggedPhotos.length > 0 && (
+          <div className="mb-6 p-4 bg-yellow-900/30 border border-yellow-700/50 rounded-lg flex items-center justify-between">
+            <div className="flex items-center space-x-2 text-yellow-200">
+              <Copy className="w-5 h-5" />
+              <span>
+                {flaggedPhotos.length} photo{flaggedPhotos.length === 1 ? ' looks' : 's look'} like {flaggedPhotos.length === 1 ? 'a copy' : 'copies'} of photos already in the collage
+              </span>
+            </div>
+            <button
+              onClick={() => setShowDuplicatesOnly(!showDuplicatesOnly)}
+              className="px-3 py-1.5 bg-yellow-700 hover:bg-yellow-600 text-white rounded-md transition-colors text-sm"
+            >
+              {showDuplicatesOnly ? 'Show all photos' : 'Review duplicates'}
+            </button>
+          </div>
+        )}
+
         {/* Photo Grid */}
         <div className="bg-gray-900/50 rounded-lg border border-gray-700 p-6">
           {safePhotos.length === 0 ? (
@@ -238,14 +310,22 @@ const CollageModerationPage: React.FC = () => {
             </div>
           ) : (
             <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
-              {safePhotos.map((photo) => (
+              {visiblePhotos.map((photo) => (
                 <div
                   key={photo.id}
-                  className="bg-gray-800 rounded-lg overflow-hidden border border-gray-600 hover:border-gray-500 transition-colors group"
+                  className={`bg-gray-800 rounded-lg overflow-hidden border transition-colors group ${
+                    photo.duplicate_of ? 'border-yellow-600 hover:border-yellow-500' : 'border-gray-600 hover:border-gray-500'
+                  }`}
                 >
                   <div className="aspect-square relative">
+                    {photo.duplicate_of && (
+                      <div className="absolute top-2 left-2 z-10 px-2 py-0.5 bg-yellow-600 text-white text-xs rounded-full flex items-center space-x-1 pointer-events-none">
+                        <Copy className="w-3 h-3" />
+                        <span>Possible duplicate</span>
+                      </div>
+                    )}
                     <img
-                      src={photo.url}
+                      src={photo.thumbnail_url || photo.url}
                       alt="Uploaded photo"
                       className="w-full h-full object-cover cursor-pointer"
                       onClick={() => openPhotoPreview(photo)}
@@ -262,6 +342,15 @@ const CollageModerationPage: React.FC = () => {
                       >
                         <Eye className="w-4 h-4 text-white" />
                       </button>
+                      {photo.duplicate_of && (
+                        <button
+                          onClick={() => handleKeepPhoto(photo.id)}
+                          className="p-2 bg-green-600 rounded-full hover:bg-green-700 transition-colors"
+                          title="Not a duplicate - keep it"
+                        >
+                          <Check className="w-4 h-4 text-white" />
+                        </button>
+                      )}
                       <button
                         onClick={() => handleDeletePhoto(photo.id)}
                         disabled={deletingPhotos.has(photo.id)}
@@ -283,6 +372,18 @@ const CollageModerationPage: React.FC = () => {
                     <p className="text-xs text-gray-500 mt-1">
                       ID: {photo.id.slice(-8)}
                     </p>
+                    {photo.duplicate_of && (
+                      <button
+                        onClick={() => {
+                          const original = findPhoto(photo.duplicate_of);
+                          if (original) openPhotoPreview(original);
+                        }}
+                        disabled={!findPhoto(photo.duplicate_of)}
+                        className="text-xs text-yellow-400 hover:text-yellow-300 disabled:hover:text-yellow-400 mt-1"
+                      >
+                        Looks like: {photo.duplicate_of.slice(-8)}
+                      </button>
+                    )}
                   </div>
                 </div>
               ))}
@@ -336,6 +437,24 @@ const CollageModerationPage: React.FC = () => {
                   <p className="text-xs text-gray-300 mt-1">
                     ID: {selectedPhoto.id}
                   </p>
+                  {selectedPhoto.duplicate_of && (
+                    <div className="flex items-center space-x-3 mt-2">
+                      {findPhoto(selectedPhoto.duplicate_of) && (
+                        <img
+                          src={findPhoto(selectedPhoto.duplicate_of)!.thumbnail_url || findPhoto(selectedPhoto.duplicate_of)!.url}
+                          alt="Possible original"
+                          className="w-12 h-12 object-cover rounded border border-yellow-600"
+                        />
+                      )}
+                      <span className="text-xs text-yellow-300">Possible duplicate of {selectedPhoto.duplicate_of.slice(-8)}</span>
+                      <button
+                        onClick={() => handleKeepPhoto(selectedPhoto.id)}
+                        className="px-2 py-1 bg-green-600 hover:bg-green-700 text-white rounded text-xs transition-colors"
+                      >
+                        Keep
+                      </button>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
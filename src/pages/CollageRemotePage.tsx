@@ -0,0 +1,236 @@
+// src/pages/CollageRemotePage.tsx - Phone-sized remote for driving the live displays of a collage
+import React, { useEffect } from 'react';
+import { useParams, Link, Navigate } from 'react-router-dom';
+import { ChevronLeft, Pause, Play, Shapes, Video, Sparkles, MonitorSmartphone, ListRestart, Unlock, QrCode } from 'lucide-react';
+import { isPendingDuplicate, useCollageStore } from '../store/collageStore';
+import { useAuthStore } from '../store/authStore';
+import { type CameraKeyframe } from '../store/sceneStore';
+import { useRemoteController } from '../hooks/useRemoteControl';
+import { PatternFactory } from '../components/three/patterns/PatternFactory';
+
+const CollageRemotePage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, initialized, initialize } = useAuthStore();
+  const {
+    currentCollage,
+    photos,
+    fetchCollageById,
+    loading,
+    error,
+    cleanupRealtimeSubscription
+  } = useCollageStore();
+  const { connected, displays, send } = useRemoteController(user ? currentCollage?.id : undefined);
+
+  // SAFETY: Ensure photos is always an array; flagged copies aren't on the displays to spotlight
+  const safePhotos = (Array.isArray(photos) ? photos : []).filter((photo) => !isPendingDuplicate(photo));
+  const patternDefinitions = PatternFactory.getPatterns();
+  const cameraPresets: CameraKeyframe[] = Array.isArray(currentCollage?.settings?.cameraTour)
+    ? currentCollage.settings.cameraTour
+    : [];
+
+  useEffect(() => {
+    initialize();
+  }, [initialize]);
+
+  useEffect(() => {
+    if (id && user) {
+      fetchCollageById(id);
+    }
+
+    return () => {
+      cleanupRealtimeSubscription();
+    };
+  }, [id, user, fetchCollageById, cleanupRealtimeSubscription]);
+
+  // Controls reflect the first display that reported in - they all receive the same commands
+  const display = displays[0];
+
+  if (initialized && !user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  if (!initialized || (loading && !currentCollage)) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-center">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
+          <p className="mt-2 text-gray-400">Connecting remote...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !currentCollage) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center px-4">
+        <div className="text-center">
+          <h2 className="text-xl font-bold text-white mb-4">Collage Not Found</h2>
+          <Link
+            to="/dashboard"
+            className="inline-flex items-center px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-md transition-colors"
+          >
+            <ChevronLeft className="w-4 h-4 mr-2" />
+            Back to Dashboard
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const controlsDisabled = !connected || displays.length === 0;
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      {/* Header */}
+      <div className="sticky top-0 z-10 bg-gray-900/95 backdrop-blur border-b border-gray-700/50 px-4 py-3">
+        <div className="flex items-center space-x-3">
+          <Link to={`/dashboard/collage/${currentCollage.id}`} className="text-gray-400 hover:text-white">
+            <ChevronLeft className="w-6 h-6" />
+          </Link>
+          <div className="flex-1 min-w-0">
+            <h1 className="text-lg font-semibold truncate">{currentCollage.name}</h1>
+            <div className="flex items-center space-x-2 text-xs text-gray-400">
+              <div className={`w-2 h-2 rounded-full ${connected && displays.length > 0 ? 'bg-green-400' : 'bg-yellow-400'}`}></div>
+              <span>
+                {!connected
+                  ? 'Connecting...'
+                  : displays.length === 0
+                    ? 'No live display open'
+                    : `${displays.length} live display${displays.length === 1 ? '' : 's'}`}
+              </span>
+            </div>
+          </div>
+          <MonitorSmartphone className="w-5 h-5 text-gray-500" />
+        </div>
+      </div>
+
+      <div className="p-4 space-y-6">
+        {displays.length === 0 && connected && (
+          <p className="text-sm text-gray-400">
+            Open the live view (<span className="font-mono">/collage/{currentCollage.code}</span>) on the big screen - it will show up here.
+          </p>
+        )}
+
+        {/* Animation */}
+        <button
+          onClick={() => send({ type: 'setAnimationPaused', paused: !display?.animationPaused })}
+          disabled={controlsDisabled}
+          className="w-full py-4 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 rounded-lg text-lg font-medium flex items-center justify-center space-x-2 transition-colors"
+        >
+          {display?.animationPaused ? <Play className="w-6 h-6" /> : <Pause className="w-6 h-6" />}
+          <span>{display?.animationPaused ? 'Resume Animation' : 'Pause Animation'}</span>
+        </button>
+
+        {/* Photobooth QR code */}
+        <button
+          onClick={() => send({ type: 'setQrVisible', visible: !display?.qrVisible })}
+          disabled={controlsDisabled}
+          className={`w-full py-3 rounded-lg font-medium flex items-center justify-center space-x-2 transition-colors disabled:opacity-50 ${
+            display?.qrVisible ? 'bg-purple-600 hover:bg-purple-700 text-white' : 'bg-gray-800 hover:bg-gray-700 text-gray-300'
+          }`}
+        >
+          <QrCode className="w-5 h-5" />
+          <span>{display?.qrVisible ? 'Hide Upload QR Code' : 'Show Upload QR Code'}</span>
+        </button>
+
+        {/* Pattern */}
+        <div>
+          <h4 className="flex items-center text-sm font-medium text-gray-200 mb-3">
+            <Shapes className="h-4 w-4 mr-2" />
+            Pattern
+          </h4>
+          <div className="grid grid-cols-2 gap-2">
+            {patternDefinitions.map((definition) => (
+              <button
+                key={definition.id}
+                onClick={() => send({ type: 'setPattern', pattern: definition.id })}
+                disabled={controlsDisabled}
+                className={`py-3 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 ${
+                  display?.pattern === definition.id
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                {definition.name}
+              </button>
+            ))}
+          </div>
+          {display?.patternOverridden && (
+            <button
+              onClick={() => send({ type: 'setPattern', pattern: null })}
+              className="w-full mt-2 py-2 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-lg text-sm flex items-center justify-center space-x-1"
+            >
+              <ListRestart className="w-4 h-4" />
+              <span>Back to Collage Settings</span>
+            </button>
+          )}
+        </div>
+
+        {/* Camera presets */}
+        <div>
+          <h4 className="flex items-center text-sm font-medium text-gray-200 mb-3">
+            <Video className="h-4 w-4 mr-2" />
+            Camera
+          </h4>
+          {cameraPresets.length === 0 ? (
+            <p className="text-xs text-gray-400">
+              Record camera tour keyframes in the editor to use them as presets here.
+            </p>
+          ) : (
+            <div className="grid grid-cols-3 gap-2">
+              {cameraPresets.map((keyframe, index) => (
+                <button
+                  key={keyframe.id}
+                  onClick={() => send({ type: 'setCameraPreset', keyframeId: keyframe.id })}
+                  disabled={controlsDisabled}
+                  className={`py-3 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 ${
+                    display?.cameraPresetId === keyframe.id
+                      ? 'bg-purple-600 text-white'
+                      : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                  }`}
+                >
+                  View {index + 1}
+                </button>
+              ))}
+            </div>
+          )}
+          {display?.cameraPresetId && (
+            <button
+              onClick={() => send({ type: 'setCameraPreset', keyframeId: null })}
+              className="w-full mt-2 py-2 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-lg text-sm flex items-center justify-center space-x-1"
+            >
+              <Unlock className="w-4 h-4" />
+              <span>Release Camera</span>
+            </button>
+          )}
+        </div>
+
+        {/* Spotlight */}
+        <div>
+          <h4 className="flex items-center text-sm font-medium text-gray-200 mb-3">
+            <Sparkles className="h-4 w-4 mr-2" />
+            Spotlight a Photo
+          </h4>
+          {safePhotos.length === 0 ? (
+            <p className="text-xs text-gray-400">No photos yet.</p>
+          ) : (
+            <div className="grid grid-cols-3 gap-2">
+              {safePhotos.map((photo) => (
+                <button
+                  key={photo.id}
+                  onClick={() => send({ type: 'spotlightPhoto', photoId: photo.id })}
+                  disabled={controlsDisabled}
+                  className="aspect-square rounded-lg overflow-hidden border border-gray-700 hover:border-purple-500 disabled:opacity-50 transition-colors"
+                >
+                  <img src={photo.thumbnail_url || photo.url} alt="Collage photo" loading="lazy" className="w-full h-full object-cover" />
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CollageRemotePage;
@@ -1,11 +1,24 @@
 // src/pages/CollageViewerPage.tsx - Clean version with transparent header
-import React, { useEffect, useState, useCallback } from 'react';
-import { useParams, Link, useNavigate } from 'react-router-dom';
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
+import { useParams, Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { Share2, Upload, Edit, Maximize2, ChevronLeft, Camera, X } from 'lucide-react';
-import { useCollageStore } from '../store/collageStore';
+import { isPendingDuplicate, useCollageStore } from '../store/collageStore';
+import { useAuthStore } from '../store/authStore';
 import { ErrorBoundary } from 'react-error-boundary';
 import CollageScene from '../components/three/CollageScene';
 import PhotoUploader from '../components/collage/PhotoUploader';
+import PhotoboothQrOverlay from '../components/collage/PhotoboothQrOverlay';
+import { usePatternPlaylist } from '../hooks/usePatternPlaylist';
+import { usePlaybackSync } from '../hooks/usePlaybackSync';
+import { useRemoteDisplay } from '../hooks/useRemoteControl';
+import { type RemoteCommand } from '../lib/remoteControl';
+import { type CameraKeyframe } from '../store/sceneStore';
+import { PatternFactory } from '../components/three/patterns/PatternFactory';
+import { describeVideoWallTile, isQrOnWallTile, parseVideoWallParams } from '../lib/videoWall';
+import { measureDisplayRefresh } from '../lib/displayRefresh';
+
+// Synced spotlights are scheduled this far ahead so every screen has time to load the photo
+const SPOTLIGHT_LEAD_SECONDS = 1.5;
 
 // Error fallback component for 3D scene errors
 function SceneErrorFallback({ error, resetErrorBoundary }: { error: Error; resetErrorBoundary: () => void }) {
@@ -38,11 +51,18 @@ const CollageViewerPage: React.FC = () => {
     error, 
     isRealtimeConnected,
     refreshPhotos,
-    cleanupRealtimeSubscription
+    cleanupRealtimeSubscription,
+    newPhotoQueue,
+    dequeueNewPhoto,
+    clearNewPhotoQueue,
+    requestSpotlight
   } = useCollageStore();
   
-  // SAFETY: Ensure photos is always an array
-  const safePhotos = Array.isArray(photos) ? photos : [];
+  // SAFETY: Ensure photos is always an array; flagged copies wait for moderation before they are shown
+  const safePhotos = useMemo(
+    () => (Array.isArray(photos) ? photos : []).filter((photo) => !isPendingDuplicate(photo)),
+    [photos]
+  );
   
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [copied, setCopied] = useState(false);
@@ -50,6 +70,89 @@ const CollageViewerPage: React.FC = () => {
   const [controlsVisible, setControlsVisible] = useState(true);
   const navigate = useNavigate();
 
+  // ?wall=3x3&tile=2,1 turns this window into one screen of a video wall
+  const [searchParams] = useSearchParams();
+  const videoWall = useMemo(() => parseVideoWallParams(searchParams), [searchParams]);
+  const [showWallLabel, setShowWallLabel] = useState(true);
+
+  // Screens showing this collage share one clock - always for wall tiles, which only line up when in step
+  const playbackSyncEnabled = Boolean(currentCollage?.settings?.playbackSyncEnabled) || Boolean(videoWall);
+  // Only screens signed in as the owner may lead; the channel's policies hold everyone else to listening
+  const { user, initialize: initializeAuth } = useAuthStore();
+  useEffect(() => {
+    initializeAuth();
+  }, [initializeAuth]);
+  const canLeadPlayback = Boolean(user && currentCollage?.user_id === user.id);
+  const playback = usePlaybackSync(currentCollage?.id, playbackSyncEnabled, canLeadPlayback);
+  const sceneClock = playback?.sync.now;
+
+  // Rotates through the collage's pattern playlist when one is enabled
+  const playlistSettings = usePatternPlaylist(currentCollage?.settings, sceneClock);
+
+  // Overrides from the remote control page - they last until released and are never saved to the collage
+  const [remotePattern, setRemotePattern] = useState<string | null>(null);
+  const [remotePaused, setRemotePaused] = useState(false);
+  const [remotePresetId, setRemotePresetId] = useState<string | null>(null);
+  const [remoteQrVisible, setRemoteQrVisible] = useState<boolean | null>(null);
+  const qrVisible = remoteQrVisible ?? Boolean(currentCollage?.settings?.qrOverlayEnabled);
+
+  // Followers show whatever pattern the leading screen shows, in case their settings are out of date
+  const leaderPattern = playback && !playback.isLeader ? playback.leaderPattern : null;
+  const displaySettings = useMemo(() => {
+    const pattern = leaderPattern || remotePattern;
+    if (!playlistSettings || !pattern || playlistSettings.animationPattern === pattern) return playlistSettings;
+    return {
+      ...playlistSettings,
+      animationPattern: pattern,
+      patterns: {
+        ...playlistSettings.patterns,
+        [pattern]: { ...playlistSettings.patterns?.[pattern], enabled: true }
+      }
+    };
+  }, [playlistSettings, leaderPattern, remotePattern]);
+
+  // Camera presets are the views recorded for the camera tour
+  const cameraTour = currentCollage?.settings?.cameraTour;
+  const cameraPreset = useMemo(() => {
+    const keyframe = remotePresetId && Array.isArray(cameraTour)
+      ? cameraTour.find((entry: CameraKeyframe) => entry.id === remotePresetId)
+      : null;
+    return keyframe ? { position: keyframe.position, target: keyframe.target, fov: keyframe.fov } : null;
+  }, [remotePresetId, cameraTour]);
+
+  const handleRemoteCommand = useCallback((command: RemoteCommand) => {
+    switch (command.type) {
+      case 'setPattern':
+        setRemotePattern(command.pattern && PatternFactory.getPattern(command.pattern) ? command.pattern : null);
+        break;
+      case 'setAnimationPaused':
+        setRemotePaused(command.paused);
+        break;
+      case 'setCameraPreset':
+        setRemotePresetId(command.keyframeId);
+        break;
+      case 'spotlightPhoto':
+        requestSpotlight(command.photoId);
+        break;
+      case 'setQrVisible':
+        setRemoteQrVisible(command.visible);
+        break;
+    }
+  }, [requestSpotlight]);
+
+  useRemoteDisplay(currentCollage?.id, handleRemoteCommand, {
+    pattern: displaySettings?.animationPattern || 'grid',
+    patternOverridden: Boolean(remotePattern),
+    animationPaused: remotePaused,
+    cameraPresetId: cameraPreset ? remotePresetId : null,
+    qrVisible,
+    photoCount: safePhotos.length
+  });
+
+  useEffect(() => {
+    playback?.sync.setPattern(displaySettings?.animationPattern ?? null);
+  }, [playback?.sync, displaySettings?.animationPattern]);
+
   // Close modal when clicking outside
   const handleModalBackdropClick = (e: React.MouseEvent) => {
     if (e.target === e.currentTarget) {
@@ -60,8 +163,9 @@ const CollageViewerPage: React.FC = () => {
   // Normalize code to uppercase for consistent database lookup
   const normalizedCode = code?.toUpperCase();
 
-  // Load collage on mount
+  // Load collage on mount; time the display while the collage is still loading and nothing heavy renders
   useEffect(() => {
+    measureDisplayRefresh();
     if (normalizedCode) {
       console.log('🔍 Fetching collage with code:', normalizedCode);
       fetchCollageByCode(normalizedCode);
@@ -70,8 +174,30 @@ const CollageViewerPage: React.FC = () => {
     return () => {
       console.log('🧹 Cleaning up realtime subscription');
       cleanupRealtimeSubscription();
+      clearNewPhotoQueue();
     };
-  }, [normalizedCode, fetchCollageByCode, cleanupRealtimeSubscription]);
+  }, [normalizedCode, fetchCollageByCode, cleanupRealtimeSubscription, clearNewPhotoQueue]);
+
+  // Synced screens spotlight whatever the leader schedules; the leader schedules from its own upload queue
+  const playbackSpotlight = playback?.spotlight ?? null;
+  const isPlaybackLeader = playback?.isLeader ?? false;
+  // Without a leading owner screen there is nobody to schedule spotlights, so this screen runs its own
+  const playbackSync = playback?.hasLeader ? playback.sync : undefined;
+  useEffect(() => {
+    if (!playbackSync || !isPlaybackLeader || playbackSpotlight || !newPhotoQueue[0]) return;
+    playbackSync.startSpotlight(newPhotoQueue[0], SPOTLIGHT_LEAD_SECONDS);
+  }, [playbackSync, isPlaybackLeader, playbackSpotlight, newPhotoQueue]);
+
+  const spotlight = playbackSync
+    ? playbackSpotlight
+    : newPhotoQueue[0] ? { photoId: newPhotoQueue[0], startAt: null } : null;
+
+  const handleFocusComplete = useCallback((photoId: string) => {
+    dequeueNewPhoto(photoId);
+    if (playbackSync && playbackSpotlight?.photoId === photoId) {
+      playbackSync.finishSpotlight(playbackSpotlight);
+    }
+  }, [dequeueNewPhoto, playbackSync, playbackSpotlight]);
 
   // Manual refresh for debugging
   const handleManualRefresh = useCallback(async () => {
@@ -98,6 +224,28 @@ const CollageViewerPage: React.FC = () => {
     }
   };
 
+  // Wall screens have no header - label the tile while it's being set up, and go fullscreen on the first click
+  useEffect(() => {
+    if (!videoWall) return;
+
+    setShowWallLabel(true);
+    const timeout = setTimeout(() => setShowWallLabel(false), 10000);
+    const handleClick = async () => {
+      if (document.fullscreenElement) return;
+      try {
+        await document.documentElement.requestFullscreen();
+      } catch (err) {
+        console.error('Error entering fullscreen:', err);
+      }
+    };
+
+    document.addEventListener('click', handleClick);
+    return () => {
+      clearTimeout(timeout);
+      document.removeEventListener('click', handleClick);
+    };
+  }, [videoWall]);
+
   // Handle escape key to close modal
   useEffect(() => {
     const handleEscapeKey = (event: KeyboardEvent) => {
@@ -195,15 +343,41 @@ const CollageViewerPage: React.FC = () => {
       >
         <CollageScene 
           photos={safePhotos}
-          settings={currentCollage.settings}
+          settings={displaySettings || currentCollage.settings}
           onSettingsChange={(newSettings) => {
             console.log('🎛️ Settings changed from viewer:', newSettings);
           }}
+          focusPhotoId={spotlight?.photoId ?? null}
+          focusStartAt={spotlight?.startAt ?? null}
+          onFocusComplete={handleFocusComplete}
+          clock={sceneClock}
+          videoWall={videoWall}
+          paused={remotePaused}
+          cameraPreset={cameraPreset}
         />
       </ErrorBoundary>
 
+      {/* Photobooth QR code - one corner screen of a wall is enough, so tiles only show it when it falls on them */}
+      {qrVisible && (!videoWall || isQrOnWallTile(videoWall, currentCollage.settings?.qrOverlayPosition)) && (
+        <PhotoboothQrOverlay
+          code={currentCollage.code}
+          settings={currentCollage.settings}
+          clock={sceneClock}
+        />
+      )}
+
+      {/* Video wall tile label */}
+      {videoWall && showWallLabel && (
+        <div className="absolute inset-0 z-20 flex items-center justify-center pointer-events-none">
+          <div className="bg-black/60 backdrop-blur-sm text-white px-6 py-4 rounded-lg text-center">
+            <div className="text-2xl font-bold">{describeVideoWallTile(videoWall)}</div>
+            <div className="text-sm text-gray-300 mt-1">Click anywhere for fullscreen</div>
+          </div>
+        </div>
+      )}
+
       {/* Transparent Header - Only shown when controls are visible */}
-      {controlsVisible && (
+      {controlsVisible && !videoWall && (
         <div className="absolute top-0 left-0 right-0 z-20">
           <div className="bg-black/40 backdrop-blur-sm border-b border-white/10">
             <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -332,7 +506,7 @@ const CollageViewerPage: React.FC = () => {
       )}
 
       {/* Fullscreen hint */}
-      {isFullscreen && controlsVisible && (
+      {isFullscreen && controlsVisible && !videoWall && (
         <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 z-20">
           <div className="bg-black/60 backdrop-blur-sm text-white text-sm px-4 py-2 rounded-lg">
             Move mouse or press any key to show controls
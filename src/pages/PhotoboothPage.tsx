@@ -1,8 +1,17 @@
 // src/pages/PhotoboothPage.tsx - FIXED: Mobile zoom prevention & larger capture button
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { Camera, SwitchCamera, Download, Send, X, RefreshCw, Type, ArrowLeft, Settings } from 'lucide-react';
+import { Camera, SwitchCamera, Download, Send, X, RefreshCw, Type, ArrowLeft, Settings, ImagePlus } from 'lucide-react';
 import { useCollageStore, Photo } from '../store/collageStore';
+import {
+  isPassthroughFile,
+  isSupportedImageFile,
+  MAX_UPLOAD_FILE_SIZE,
+  prepareImageForUpload,
+  SUPPORTED_IMAGE_ACCEPT,
+  type ImageProcessingStage,
+  type ProcessedImage
+} from '../lib/imageProcessing';
 import Layout from '../components/layout/Layout';
 
 type VideoDevice = {
@@ -26,6 +35,10 @@ const PhotoboothPage: React.FC = () => {
   const [text, setText] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [uploading, setUploading] = useState(false);
+  const [libraryStage, setLibraryStage] = useState<ImageProcessingStage | null>(null);
+  // A photo picked from the library is prepared when picked, so it isn't re-encoded on upload
+  const libraryPhotoRef = useRef<ProcessedImage | null>(null);
+  const libraryInputRef = useRef<HTMLInputElement>(null);
   const [cameraState, setCameraState] = useState<CameraState>('idle');
   
   const [showError, setShowError] = useState(false);
@@ -423,15 +436,23 @@ const PhotoboothPage: React.FC = () => {
     setError(null);
 
     try {
-      const response = await fetch(photo);
-      const blob = await response.blob();
-      const file = new File([blob], 'photobooth.jpg', { type: 'image/jpeg' });
+      let processed = libraryPhotoRef.current;
+      if (!processed) {
+        const response = await fetch(photo);
+        const blob = await response.blob();
+        const file = new File([blob], 'photobooth.jpg', { type: 'image/jpeg' });
+        processed = await prepareImageForUpload(file);
+      }
 
-      const result = await uploadPhoto(currentCollage.id, file);
+      const result = await uploadPhoto(currentCollage.id, processed.file, {
+        thumbnail: processed.thumbnail,
+        perceptualHash: processed.perceptualHash
+      });
       if (result) {        
         // Reset state
         setPhoto(null);
         setText('');
+        libraryPhotoRef.current = null;
         
         // Show success message
         setError('Photo uploaded successfully! Your photo will appear in the collage automatically.');
@@ -461,9 +482,45 @@ const PhotoboothPage: React.FC = () => {
     link.click();
   }, [photo]);
 
+  // iPhone library photos are usually HEIC, which is converted here before the preview is shown
+  const handleLibraryFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!isSupportedImageFile(file)) {
+      setError(`"${file.name}" is not a supported image. Choose a JPEG, PNG, GIF, WebP or HEIC photo.`);
+      return;
+    }
+    if (isPassthroughFile(file) && file.size > MAX_UPLOAD_FILE_SIZE) {
+      setError(`"${file.name}" is too large. GIFs are uploaded without resizing, so they must be under 10MB.`);
+      return;
+    }
+
+    setError(null);
+    try {
+      const processed = await prepareImageForUpload(file, {}, setLibraryStage);
+      const preview = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(new Error('Failed to read photo'));
+        reader.readAsDataURL(processed.file);
+      });
+
+      libraryPhotoRef.current = processed;
+      setPhoto(preview);
+      cleanupCamera();
+    } catch (err: any) {
+      setError(err.message || 'Failed to load photo');
+    } finally {
+      setLibraryStage(null);
+    }
+  }, [cleanupCamera]);
+
   const retakePhoto = useCallback(() => {
     setPhoto(null);
     setText('');
+    libraryPhotoRef.current = null;
     
     // Restart camera immediately
     setTimeout(() => {
@@ -810,6 +867,35 @@ const PhotoboothPage: React.FC = () => {
                       </button>
                     </div>
                   )}
+
+                  {/* Library Picker - also works when the camera is unavailable */}
+                  <div className="absolute bottom-6 left-4">
+                    <input
+                      ref={libraryInputRef}
+                      type="file"
+                      accept={SUPPORTED_IMAGE_ACCEPT}
+                      onChange={handleLibraryFile}
+                      className="hidden"
+                    />
+                    <button
+                      onClick={() => libraryInputRef.current?.click()}
+                      disabled={libraryStage !== null}
+                      className="p-3 bg-black/60 hover:bg-black/80 disabled:opacity-70 backdrop-blur-sm border border-white/30 text-white rounded-full transition-colors flex items-center space-x-2"
+                      title="Choose from library"
+                      style={{ touchAction: 'manipulation' }}
+                    >
+                      {libraryStage ? (
+                        <>
+                          <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                          <span className="text-xs pr-1">
+                            {libraryStage === 'converting' ? 'Converting HEIC...' : 'Preparing...'}
+                          </span>
+                        </>
+                      ) : (
+                        <ImagePlus className="w-5 h-5" />
+                      )}
+                    </button>
+                  </div>
                 </div>
               )}
               
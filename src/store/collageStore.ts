@@ -3,6 +3,10 @@ import { create } from 'zustand';
 import { supabase } from '../lib/supabase';
 import { nanoid } from 'nanoid';
 import { RealtimeChannel } from '@supabase/supabase-js';
+import { SETTINGS_VERSION, type SceneSettings } from './sceneStore';
+import { createDefaultSettings, isNewerSettings, loadCollageSettings } from '../lib/settingsSchema';
+import { findNearDuplicate } from '../lib/perceptualHash';
+import { MAX_UPLOAD_FILE_SIZE } from '../lib/imageProcessing';
 
 // Helper function to get file URL
 const getFileUrl = (bucket: string, path: string): string => {
@@ -10,6 +14,13 @@ const getFileUrl = (bucket: string, path: string): string => {
   return data.publicUrl;
 };
 
+// Inverse of getFileUrl for the photos bucket; null for URLs that don't point into it
+const getStoragePath = (publicUrl: string): string | null => {
+  const pathParts = new URL(publicUrl).pathname.split('/');
+  const storagePathIndex = pathParts.findIndex(part => part === 'photos');
+  return storagePathIndex === -1 ? null : pathParts.slice(storagePathIndex + 1).join('/');
+};
+
 // Helper for deep merging objects
 function deepMerge(target: any, source: any): any {
   const output = { ...target };
@@ -23,70 +34,108 @@ function deepMerge(target: any, source: any): any {
   return output;
 }
 
-// Default scene settings
-const defaultSettings = {
-  animationPattern: 'grid_wall',
-  photoCount: 100,
-  animationSpeed: 50,
-  cameraDistance: 15,
-  cameraHeight: 8,
-  cameraRotationSpeed: 20,
-  photoSize: 1.0,
-  photoBrightness: 1.0,
-  backgroundColor: '#000000',
-  backgroundGradient: true,
-  backgroundGradientStart: '#1a1a2e',
-  backgroundGradientEnd: '#16213e',
-  backgroundGradientAngle: 45,
-  floorColor: '#111111',
-  showFloor: true,
-  showGrid: true,
-  ambientLightIntensity: 0.4,
-  spotlightIntensity: 0.8,
-  patterns: {
-    grid_wall: { enabled: true },
-    float: { enabled: false },
-    wave: { enabled: false },
-    spiral: { enabled: false }
+// Uploads from this tab that haven't got their photos row yet, per collage - a double tap sends the
+// second copy before the first is in the table, so those are checked too
+type PendingUpload = { perceptual_hash: string; photoId: Promise<string | null> };
+const pendingUploads = new Map<string, PendingUpload[]>();
+
+// Registers an upload; call the returned function with its photo id (or null if it failed) when done
+const trackPendingUpload = (collageId: string, hash: string) => {
+  let settle: (photoId: string | null) => void = () => {};
+  const entry: PendingUpload = { perceptual_hash: hash, photoId: new Promise((resolve) => { settle = resolve; }) };
+  pendingUploads.set(collageId, [...(pendingUploads.get(collageId) || []), entry]);
+
+  let settled = false;
+  const done = (photoId: string | null) => {
+    if (settled) return;
+    settled = true;
+    settle(photoId);
+    const remaining = (pendingUploads.get(collageId) || []).filter((upload) => upload !== entry);
+    if (remaining.length > 0) {
+      pendingUploads.set(collageId, remaining);
+    } else {
+      pendingUploads.delete(collageId);
+    }
+  };
+  return { entry, done };
+};
+
+// The photo an upload duplicates under the collage's duplicatePhotoPolicy, or null if it may go ahead as normal
+const findDuplicatePhoto = async (
+  collageId: string,
+  hash: string,
+  self: PendingUpload
+): Promise<{ policy: 'flag' | 'reject'; photoId: string } | null> => {
+  const { data: settingsRow } = await supabase
+    .from('collage_settings')
+    .select('settings')
+    .eq('collage_id', collageId)
+    .maybeSingle();
+  const policy = loadCollageSettings(settingsRow?.settings).duplicatePhotoPolicy;
+  if (policy === 'allow') return null;
+
+  // Only uploads started earlier, so two copies in flight never wait on each other
+  const inFlight = pendingUploads.get(collageId) || [];
+  const pending = findNearDuplicate(hash, inFlight.slice(0, inFlight.indexOf(self)));
+  if (pending) {
+    const photoId = await pending.photoId;
+    if (photoId) return { policy, photoId };
+  }
+
+  const { data: photos, error } = await supabase
+    .from('photos')
+    .select('id, perceptual_hash')
+    .eq('collage_id', collageId)
+    .not('perceptual_hash', 'is', null);
+
+  if (error) {
+    console.warn('⚠️ Duplicate check failed, uploading anyway:', error);
+    return null;
   }
+
+  const match = findNearDuplicate(hash, photos || []);
+  return match ? { policy, photoId: match.id } : null;
 };
 
+// A burst of uploads only spotlights the most recent ones
+const MAX_NEW_PHOTO_QUEUE = 20;
+
 export interface Photo {
   id: string;
   collage_id: string;
   url: string;
+  thumbnail_url?: string | null; // small preview; photos uploaded before thumbnails existed have none
+  perceptual_hash?: string | null;
+  duplicate_of?: string | null; // flagged as a likely copy of this photo, pending moderation
   created_at: string;
 }
 
+// Flagged copies stay off the wall, out of the spotlight, until a moderator keeps them
+export const isPendingDuplicate = (photo: Photo) => Boolean(photo.duplicate_of);
+
+export type UploadPhotoOptions = {
+  thumbnail?: Blob | null;
+  perceptualHash?: string | null;
+  // Row id chosen by the caller, so retrying after a lost response can't add the photo twice
+  photoId?: string;
+};
+
 export interface Collage {
   id: string;
   name: string;
   code: string;
+  user_id?: string;
   created_at: string;
-  settings: any;
+  settings: SceneSettings;
 }
 
-export interface SceneSettings {
-  animationPattern?: string;
-  patterns?: any;
-  photoCount?: number;
-  animationSpeed?: number;
-  cameraDistance?: number;
-  cameraHeight?: number;
-  cameraRotationSpeed?: number;
-  photoSize?: number;
-  photoBrightness?: number;
-  backgroundColor?: string;
-  backgroundGradient?: boolean;
-  backgroundGradientStart?: string;
-  backgroundGradientEnd?: string;
-  backgroundGradientAngle?: number;
-  floorColor?: string;
-  showFloor?: boolean;
-  showGrid?: boolean;
-  ambientLightIntensity?: number;
-  spotlightIntensity?: number;
-  [key: string]: any;
+// A saved look the signed-in user can apply to any of their collages
+export interface ScenePreset {
+  id: string;
+  name: string;
+  settings: SceneSettings;
+  thumbnail_url: string | null;
+  created_at: string;
 }
 
 interface CollageStore {
@@ -100,6 +149,9 @@ interface CollageStore {
   isRealtimeConnected: boolean;
   lastRefreshTime: number;
   pollingInterval: NodeJS.Timeout | null;
+  // Photos delivered by realtime that the live display hasn't spotlighted yet, oldest first
+  newPhotoQueue: string[];
+  scenePresets: ScenePreset[];
 
   // Actions
   fetchCollages: () => Promise<void>;
@@ -108,8 +160,13 @@ interface CollageStore {
   createCollage: (name: string) => Promise<Collage | null>;
   updateCollageSettings: (collageId: string, settings: Partial<SceneSettings>) => Promise<any>;
   updateCollageName: (collageId: string, name: string) => Promise<any>;
-  uploadPhoto: (collageId: string, file: File) => Promise<Photo | null>;
+  fetchScenePresets: () => Promise<void>;
+  saveScenePreset: (name: string, settings: SceneSettings, thumbnail?: Blob | null) => Promise<ScenePreset>;
+  deleteScenePreset: (presetId: string) => Promise<void>;
+  uploadPhoto: (collageId: string, file: File, options?: UploadPhotoOptions) => Promise<Photo | null>;
+  uploadPatternAsset: (collageId: string, file: File) => Promise<string>;
   deletePhoto: (photoId: string) => Promise<void>;
+  clearDuplicateFlag: (photoId: string) => Promise<void>;
   fetchPhotosByCollageId: (collageId: string) => Promise<void>;
   refreshPhotos: (collageId: string) => Promise<void>;
   
@@ -122,6 +179,9 @@ interface CollageStore {
   removePhotoFromState: (photoId: string) => void;
   startPolling: (collageId: string) => void;
   stopPolling: () => void;
+  dequeueNewPhoto: (photoId: string) => void;
+  clearNewPhotoQueue: () => void;
+  requestSpotlight: (photoId: string) => void;
 }
 
 export const useCollageStore = create<CollageStore>((set, get) => ({
@@ -135,6 +195,8 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
   isRealtimeConnected: false,
   lastRefreshTime: 0,
   pollingInterval: null,
+  newPhotoQueue: [],
+  scenePresets: [],
 
   // Add photo to state - ENHANCED
   addPhotoToState: (photo: Photo) => {
@@ -159,7 +221,10 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
     console.log('🗑️ Removing photo from state:', photoId);
     set((state) => {
       const beforeCount = state.photos.length;
-      const newPhotos = state.photos.filter(p => p.id !== photoId);
+      const newPhotos = state.photos
+        .filter(p => p.id !== photoId)
+        // Matches the ON DELETE SET NULL on photos.duplicate_of
+        .map(p => p.duplicate_of === photoId ? { ...p, duplicate_of: null } : p);
       const afterCount = newPhotos.length;
       
       console.log(`🗑️ Photos: ${beforeCount} -> ${afterCount}`);
@@ -194,18 +259,34 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
         },
         (payload) => {
           console.log('🔔 Realtime event:', payload.eventType, payload);
+
+          const queueForFocus = (photoId: string) => {
+            if (get().currentCollage?.settings?.newPhotoFocusEnabled === false) return;
+            set((state) => ({
+              newPhotoQueue: state.newPhotoQueue.includes(photoId)
+                ? state.newPhotoQueue
+                : [...state.newPhotoQueue, photoId].slice(-MAX_NEW_PHOTO_QUEUE)
+            }));
+          };
           
           if (payload.eventType === 'INSERT' && payload.new) {
             console.log('➕ REALTIME INSERT:', payload.new.id);
+            // Queue before adding - the uploader's own copy may already be in state
+            if (!isPendingDuplicate(payload.new as Photo)) queueForFocus(payload.new.id);
             get().addPhotoToState(payload.new as Photo);
           } 
           else if (payload.eventType === 'DELETE' && payload.old) {
             console.log('🗑️ REALTIME DELETE:', payload.old.id);
+            get().dequeueNewPhoto(payload.old.id);
             get().removePhotoFromState(payload.old.id);
           }
           else if (payload.eventType === 'UPDATE' && payload.new) {
             console.log('📝 REALTIME UPDATE:', payload.new.id);
-            // Handle photo updates if needed
+            // A flagged copy a moderator kept arrives on the wall now, so it gets its spotlight now
+            const previous = get().photos.find(p => p.id === payload.new.id);
+            if (previous && isPendingDuplicate(previous) && !isPendingDuplicate(payload.new as Photo)) {
+              queueForFocus(payload.new.id);
+            }
             set((state) => ({
               photos: state.photos.map(p => 
                 p.id === payload.new.id ? payload.new as Photo : p
@@ -263,6 +344,27 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
     }
   },
 
+  dequeueNewPhoto: (photoId: string) => {
+    set((state) => ({
+      newPhotoQueue: state.newPhotoQueue.filter(id => id !== photoId)
+    }));
+  },
+
+  clearNewPhotoQueue: () => {
+    set({ newPhotoQueue: [] });
+  },
+
+  // Jumps the queue - right after the spotlight that's already running, so it isn't cut short
+  requestSpotlight: (photoId: string) => {
+    set((state) => {
+      const rest = state.newPhotoQueue.filter(id => id !== photoId);
+      if (state.newPhotoQueue[0] === photoId || rest.length === 0) {
+        return { newPhotoQueue: [photoId, ...rest] };
+      }
+      return { newPhotoQueue: [rest[0], photoId, ...rest.slice(1)] };
+    });
+  },
+
   refreshPhotos: async (collageId: string) => {
     try {
       await get().fetchPhotosByCollageId(collageId);
@@ -351,7 +453,7 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
 
       const collageWithSettings = {
         ...collage,
-        settings: settings?.settings ? deepMerge(defaultSettings, settings.settings) : defaultSettings
+        settings: loadCollageSettings(settings?.settings)
       } as Collage;
 
       set({ currentCollage: collageWithSettings, loading: false, error: null });
@@ -413,7 +515,7 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
 
       const collageWithSettings = {
         ...collage,
-        settings: settings?.settings ? deepMerge(defaultSettings, settings.settings) : defaultSettings
+        settings: loadCollageSettings(settings?.settings)
       } as Collage;
 
       set({ currentCollage: collageWithSettings, loading: false, error: null });
@@ -448,6 +550,7 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
 
       if (collageError) throw collageError;
 
+      const defaultSettings = createDefaultSettings();
       const { data: settings, error: settingsError } = await supabase
         .from('collage_settings')
         .insert([{ 
@@ -480,8 +583,14 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
     try {
       const currentCollage = get().currentCollage;
       if (!currentCollage) throw new Error('No current collage');
+      if (isNewerSettings(currentCollage.settings)) {
+        throw new Error('These settings were saved by a newer version of the app - reload the page to edit them');
+      }
 
-      const mergedSettings = deepMerge(currentCollage.settings, settings);
+      const mergedSettings: SceneSettings = {
+        ...deepMerge(currentCollage.settings, settings),
+        version: SETTINGS_VERSION
+      };
 
       const { data, error } = await supabase
         .from('collage_settings')
@@ -506,6 +615,114 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
     }
   },
 
+  fetchScenePresets: async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        set({ scenePresets: [] });
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('scene_presets')
+        .select('id, name, settings, thumbnail_url, created_at')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      // Presets saved by older versions of the app are migrated like collage settings
+      const scenePresets = (data || []).map((row) => ({
+        ...row,
+        settings: loadCollageSettings(row.settings),
+        created_at: row.created_at || ''
+      }));
+      set({ scenePresets });
+    } catch (error: any) {
+      console.error('❌ Failed to fetch scene presets:', error.message);
+      throw error;
+    }
+  },
+
+  saveScenePreset: async (name: string, settings: SceneSettings, thumbnail?: Blob | null) => {
+    try {
+      console.log('💾 Saving scene preset:', name);
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Sign in to save presets');
+
+      let thumbnailUrl: string | null = null;
+      if (thumbnail) {
+        const { data: uploadData, error: uploadError } = await supabase.storage
+          .from('photos')
+          .upload(`${user.id}/presets/${nanoid()}.jpg`, thumbnail, {
+            cacheControl: '3600',
+            contentType: 'image/jpeg',
+            upsert: false
+          });
+
+        if (uploadError) {
+          // A preset without a picture is still useful
+          console.warn('⚠️ Preset thumbnail upload failed (non-fatal):', uploadError);
+        } else {
+          thumbnailUrl = getFileUrl('photos', uploadData.path);
+        }
+      }
+
+      const { data, error } = await supabase
+        .from('scene_presets')
+        .insert([{
+          name,
+          settings: { ...settings, version: SETTINGS_VERSION },
+          thumbnail_url: thumbnailUrl
+        }])
+        .select('id, name, settings, thumbnail_url, created_at')
+        .single();
+
+      if (error) throw error;
+
+      const preset: ScenePreset = {
+        ...data,
+        settings: loadCollageSettings(data.settings),
+        created_at: data.created_at || ''
+      };
+      set((state) => ({ scenePresets: [preset, ...state.scenePresets] }));
+
+      console.log('✅ Scene preset saved:', preset.id);
+      return preset;
+    } catch (error: any) {
+      console.error('❌ Failed to save scene preset:', error.message);
+      throw error;
+    }
+  },
+
+  deleteScenePreset: async (presetId: string) => {
+    try {
+      const preset = get().scenePresets.find((p) => p.id === presetId);
+
+      const { error } = await supabase
+        .from('scene_presets')
+        .delete()
+        .eq('id', presetId);
+
+      if (error) throw error;
+
+      set((state) => ({ scenePresets: state.scenePresets.filter((p) => p.id !== presetId) }));
+
+      const thumbnailPath = preset?.thumbnail_url ? getStoragePath(preset.thumbnail_url) : null;
+      if (thumbnailPath) {
+        const { error: deleteStorageError } = await supabase.storage
+          .from('photos')
+          .remove([thumbnailPath]);
+        if (deleteStorageError) {
+          console.warn('⚠️ Preset thumbnail delete error (non-fatal):', deleteStorageError);
+        }
+      }
+    } catch (error: any) {
+      console.error('❌ Failed to delete scene preset:', error.message);
+      throw error;
+    }
+  },
+
   // NEW: Update collage name
   updateCollageName: async (collageId: string, name: string) => {
     try {
@@ -540,13 +757,16 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
   },
 
   // Enhanced upload with better error handling
-  uploadPhoto: async (collageId: string, file: File) => {
+  // Expects a file already resized and stripped of metadata by prepareImageForUpload; the thumbnail is stored next to it
+  uploadPhoto: async (collageId: string, file: File, options: UploadPhotoOptions = {}) => {
+    const { thumbnail, perceptualHash, photoId } = options;
+    const pending = perceptualHash ? trackPendingUpload(collageId, perceptualHash) : null;
+    let duplicateOf: string | null = null;
     try {
       console.log('📤 Starting photo upload:', file.name);
       
       // Validation
-      const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
-      if (file.size > MAX_FILE_SIZE) {
+      if (file.size > MAX_UPLOAD_FILE_SIZE) {
         throw new Error('File size exceeds 10MB limit');
       }
 
@@ -555,9 +775,31 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
         throw new Error('Invalid file type. Only images are supported.');
       }
 
-      // Generate unique filename
+      if (photoId) {
+        const { data: existing } = await supabase
+          .from('photos')
+          .select('*')
+          .eq('id', photoId)
+          .maybeSingle();
+        if (existing) {
+          console.log('♻️ Photo was already uploaded by an earlier attempt:', photoId);
+          return existing as Photo;
+        }
+      }
+
+      if (perceptualHash && pending) {
+        const duplicate = await findDuplicatePhoto(collageId, perceptualHash, pending.entry);
+        if (duplicate?.policy === 'reject') {
+          throw new Error('This photo is already in the collage.');
+        }
+        duplicateOf = duplicate?.photoId ?? null;
+      }
+
+      // Queued uploads are named after their photo id, so a retry after a lost response overwrites the
+      // files of the earlier attempt instead of leaving them orphaned in storage
+      const fileId = photoId ?? nanoid();
       const fileExt = file.name.split('.').pop();
-      const fileName = `${collageId}/${nanoid()}.${fileExt}`;
+      const fileName = `${collageId}/${fileId}.${fileExt}`;
 
       console.log('📤 Uploading to storage:', fileName);
 
@@ -566,7 +808,7 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
         .from('photos')
         .upload(fileName, file, {
           cacheControl: '3600',
-          upsert: false
+          upsert: Boolean(photoId)
         });
 
       if (uploadError) {
@@ -580,24 +822,57 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
       const publicUrl = getFileUrl('photos', uploadData.path);
       console.log('🔗 Public URL:', publicUrl);
 
+      // The photo works without its thumbnail, so a failed thumbnail upload isn't fatal
+      let thumbnailPath: string | null = null;
+      if (thumbnail) {
+        const thumbnailExt = thumbnail.type === 'image/webp' ? 'webp' : 'jpg';
+        const { data: thumbnailData, error: thumbnailError } = await supabase.storage
+          .from('photos')
+          .upload(`${collageId}/thumbs/${fileId}.${thumbnailExt}`, thumbnail, {
+            cacheControl: '3600',
+            contentType: thumbnail.type,
+            upsert: Boolean(photoId)
+          });
+
+        if (thumbnailError) {
+          console.warn('⚠️ Thumbnail upload error (non-fatal):', thumbnailError);
+        } else {
+          thumbnailPath = thumbnailData.path;
+        }
+      }
+
       // Insert photo record
       const { data: photo, error: dbError } = await supabase
         .from('photos')
         .insert([{
+          ...(photoId ? { id: photoId } : {}),
           collage_id: collageId,
-          url: publicUrl
+          url: publicUrl,
+          thumbnail_url: thumbnailPath ? getFileUrl('photos', thumbnailPath) : null,
+          perceptual_hash: perceptualHash ?? null,
+          duplicate_of: duplicateOf
         }])
         .select()
         .single();
 
       if (dbError) {
         console.error('❌ Database insert error:', dbError);
+
+        // Another attempt with the same id (e.g. from a second tab) got there first - its row points at
+        // the same files, so keep them
+        if (photoId && dbError.code === '23505') {
+          const { data: existing } = await supabase.from('photos').select('*').eq('id', photoId).maybeSingle();
+          if (existing) return existing as Photo;
+        }
+
         // Clean up uploaded file if database insert fails
-        await supabase.storage.from('photos').remove([uploadData.path]);
+        await supabase.storage.from('photos').remove(thumbnailPath ? [uploadData.path, thumbnailPath] : [uploadData.path]);
         throw dbError;
       }
 
       console.log('✅ Photo record created:', photo.id);
+      pending?.done(photo.id);
+      if (duplicateOf) console.log('🪞 Flagged as a possible duplicate of:', duplicateOf);
       console.log('🔔 Realtime should now broadcast this to all clients');
       
       return photo as Photo;
@@ -605,6 +880,47 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
     } catch (error: any) {
       console.error('❌ Upload photo error:', error);
       throw error;
+    } finally {
+      pending?.done(null);
+    }
+  },
+
+  // Upload an image used by a pattern (e.g. a logo mask) - stored alongside photos but not added to the collage
+  uploadPatternAsset: async (collageId: string, file: File) => {
+    try {
+      console.log('📤 Uploading pattern asset:', file.name);
+
+      const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+      if (file.size > MAX_FILE_SIZE) {
+        throw new Error('File size exceeds 5MB limit');
+      }
+
+      const validImageTypes = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+      if (!validImageTypes.includes(file.type)) {
+        throw new Error('Invalid file type. Use a PNG, JPG, WebP or GIF image.');
+      }
+
+      const fileExt = file.name.split('.').pop();
+      const fileName = `${collageId}/assets/${nanoid()}.${fileExt}`;
+
+      const { data: uploadData, error: uploadError } = await supabase.storage
+        .from('photos')
+        .upload(fileName, file, {
+          cacheControl: '3600',
+          upsert: false
+        });
+
+      if (uploadError) {
+        console.error('❌ Pattern asset upload error:', uploadError);
+        throw uploadError;
+      }
+
+      const publicUrl = getFileUrl('photos', uploadData.path);
+      console.log('✅ Pattern asset uploaded:', publicUrl);
+      return publicUrl;
+    } catch (error: any) {
+      console.error('❌ Upload pattern asset error:', error);
+      throw error;
     }
   },
 
@@ -616,7 +932,7 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
       // First, get the photo to find the storage path
       const { data: photo, error: fetchError } = await supabase
         .from('photos')
-        .select('url')
+        .select('url, thumbnail_url')
         .eq('id', photoId)
         .single();
 
@@ -626,15 +942,13 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
       }
 
       // Extract storage path from URL
-      const url = new URL(photo.url);
-      const pathParts = url.pathname.split('/');
-      const storagePathIndex = pathParts.findIndex(part => part === 'photos');
+      const storagePath = getStoragePath(photo.url);
       
-      if (storagePathIndex === -1) {
+      if (!storagePath) {
         throw new Error('Invalid photo URL format');
       }
       
-      const storagePath = pathParts.slice(storagePathIndex + 1).join('/');
+      const thumbnailPath = photo.thumbnail_url ? getStoragePath(photo.thumbnail_url) : null;
       console.log('🗑️ Storage path:', storagePath);
 
       // Delete from database first
@@ -653,7 +967,7 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
       // Delete from storage
       const { error: deleteStorageError } = await supabase.storage
         .from('photos')
-        .remove([storagePath]);
+        .remove(thumbnailPath ? [storagePath, thumbnailPath] : [storagePath]);
 
       if (deleteStorageError) {
         console.warn('⚠️ Storage delete error (non-fatal):', deleteStorageError);
@@ -668,5 +982,22 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
       console.error('❌ Delete photo error:', error);
       throw error;
     }
+  },
+
+  // Moderator decided a flagged photo isn't a duplicate after all
+  clearDuplicateFlag: async (photoId: string) => {
+    const { error } = await supabase
+      .from('photos')
+      .update({ duplicate_of: null })
+      .eq('id', photoId);
+
+    if (error) {
+      console.error('❌ Clear duplicate flag error:', error);
+      throw error;
+    }
+
+    set((state) => ({
+      photos: state.photos.map(p => p.id === photoId ? { ...p, duplicate_of: null } : p)
+    }));
   }
 }));
\ No newline at end of file
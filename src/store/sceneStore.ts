@@ -1,12 +1,53 @@
 // src/store/sceneStore.ts - Updated with larger default photo size
 import { create } from 'zustand';
 
+export type PatternParamValue = number | boolean | string;
+
+// Per-pattern parameter block; the available keys come from the pattern's registry entry
+export type PatternParams = {
+  enabled: boolean;
+  [key: string]: PatternParamValue;
+};
+
+// One step of an auto-cycling pattern playlist
+export type PatternPlaylistItem = {
+  id: string;
+  pattern: string;
+  dwellSeconds: number;
+  overrides: Record<string, PatternParamValue>;
+};
+
+// One stop of a recorded camera tour
+export type CameraKeyframe = {
+  id: string;
+  position: [number, number, number];
+  target: [number, number, number];
+  fov: number;
+  travelSeconds: number; // Time to fly here from the previous keyframe
+  holdSeconds: number; // Time to stay once arrived
+  easing: SceneSettings['patternTransitionEasing'];
+};
+
+// Shape version of stored collage settings - bump together with a migration in lib/settingsSchema.ts
+export const SETTINGS_VERSION = 1;
+
 export type SceneSettings = {
-  animationPattern: 'float' | 'wave' | 'spiral' | 'grid';
+  version: number;
+  // Any pattern id registered with PatternRegistry
+  animationPattern: string;
   gridAspectRatioPreset: '1:1' | '4:3' | '16:9' | '21:9' | 'custom';
   animationSpeed: number;
   animationEnabled: boolean;
+  patternTransitionDuration: number; // Seconds, 0 = instant switch
+  patternTransitionEasing: 'linear' | 'easeInOut' | 'easeOut' | 'easeOutBack';
+  patternTransitionStagger: 'none' | 'ripple' | 'rows' | 'random';
+  patternPlaylistEnabled: boolean;
+  patternPlaylist: PatternPlaylistItem[];
   photoCount: number;
+  // 'auto' switches to instanced rendering for large photo counts
+  photoRenderMode: 'auto' | 'standard' | 'instanced';
+  adaptiveQuality: boolean; // Lower rendering quality automatically when frames miss their budget
+  showDiagnostics: boolean;
   backgroundColor: string;
   backgroundGradient: boolean;
   backgroundGradientStart: string;
@@ -18,6 +59,19 @@ export type SceneSettings = {
   cameraRotationSpeed: number;
   cameraHeight: number;
   cameraEnabled: boolean;
+  cameraTourEnabled: boolean; // Plays cameraTour in a loop instead of auto-rotating
+  cameraTour: CameraKeyframe[];
+  newPhotoFocusEnabled: boolean; // Live display flies to each newly uploaded photo
+  newPhotoFocusSeconds: number;
+  playbackSyncEnabled: boolean; // Viewers of this collage share one clock for patterns, tours and spotlights
+  qrOverlayEnabled: boolean; // QR code linking to the photobooth, drawn over the live display
+  qrOverlayPosition: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+  qrOverlaySize: number; // px
+  qrOverlayMode: 'always' | 'periodic';
+  qrOverlayShowSeconds: number; // periodic mode: visible for this long...
+  qrOverlayHideSeconds: number; // ...then hidden for this long
+  qrOverlayCaption: string;
+  duplicatePhotoPolicy: 'allow' | 'flag' | 'reject'; // What happens to an upload that looks like a photo already in the collage
   spotlightCount: number;
   spotlightHeight: number;
   spotlightDistance: number;
@@ -45,40 +99,27 @@ export type SceneSettings = {
   wallHeight: number;
   gridAspectRatio: number;
   photoBrightness: number;
-  patterns: {
-    grid: {
-      enabled: boolean;
-      spacing: number;
-      aspectRatio: number;
-      wallHeight: number;
-    };
-    float: {
-      enabled: boolean;
-      spacing: number;
-      height: number;
-      spread: number;
-    };
-    wave: {
-      enabled: boolean;
-      spacing: number;
-      amplitude: number;
-      frequency: number;
-    };
-    spiral: {
-      enabled: boolean;
-      spacing: number;
-      radius: number;
-      heightStep: number;
-    };
-  };
+  patterns: Record<string, PatternParams>;
 };
 
+// Upper bound for photo slots; large counts rely on the instanced renderer
+export const MAX_PHOTO_COUNT = 2500;
+
 const defaultSettings: SceneSettings = {
+  version: SETTINGS_VERSION,
   animationPattern: 'grid',
   gridAspectRatioPreset: '16:9',
   animationSpeed: 50,
   animationEnabled: true,
+  patternTransitionDuration: 2,
+  patternTransitionEasing: 'easeInOut',
+  patternTransitionStagger: 'none',
+  patternPlaylistEnabled: false,
+  patternPlaylist: [],
   photoCount: 50,
+  photoRenderMode: 'auto',
+  adaptiveQuality: true,
+  showDiagnostics: false,
   backgroundColor: '#000000',
   backgroundGradient: false,
   backgroundGradientStart: '#000000',
@@ -90,6 +131,19 @@ const defaultSettings: SceneSettings = {
   cameraRotationSpeed: 0.2,
   cameraHeight: 10,
   cameraEnabled: true,
+  cameraTourEnabled: false,
+  cameraTour: [],
+  newPhotoFocusEnabled: true,
+  newPhotoFocusSeconds: 5,
+  playbackSyncEnabled: false,
+  qrOverlayEnabled: false,
+  qrOverlayPosition: 'bottom-right',
+  qrOverlaySize: 160,
+  qrOverlayMode: 'always',
+  qrOverlayShowSeconds: 15,
+  qrOverlayHideSeconds: 45,
+  qrOverlayCaption: 'Scan to add your photo',
+  duplicatePhotoPolicy: 'flag',
   spotlightCount: 4,
   spotlightHeight: 30,
   spotlightDistance: 40,
@@ -118,29 +172,26 @@ const defaultSettings: SceneSettings = {
   gridAspectRatio: 1.77778,
   photoBrightness: 1.0, // 1.0 = natural photo brightness (100%)
   patterns: {
+    // Spacing, aspect ratio and wall height fall back to the top-level wall settings
     grid: {
-      enabled: true,
-      spacing: 0.1,
-      aspectRatio: 1.77778,
-      wallHeight: 0
+      enabled: true
     },
     float: {
       enabled: false,
-      spacing: 0.1,
-      height: 30,
-      spread: 25
+      height: 300,
+      spread: 100,
+      drift: 0.01
     },
     wave: {
       enabled: false,
-      spacing: 0.15,
-      amplitude: 5,
-      frequency: 0.5
+      amplitude: 15,
+      frequency: 0.3
     },
     spiral: {
       enabled: false,
       spacing: 0.1,
-      radius: 15,
-      heightStep: 0.5
+      radius: 30,
+      heightStep: 0
     }
   }
 };
@@ -165,16 +216,22 @@ export const useSceneStore = create<SceneState>()((set, get) => {
 
     // Handle pattern changes
     if (newSettings.animationPattern && newSettings.animationPattern !== currentSettings.animationPattern) {
-      // Update enabled states for patterns
-      Object.keys(currentSettings.patterns).forEach(pattern => {
-        currentSettings.patterns[pattern as keyof typeof currentSettings.patterns].enabled = 
-          pattern === newSettings.animationPattern;
+      // Update enabled states for patterns, creating a block for patterns not seen before
+      const basePatterns = newSettings.patterns || currentSettings.patterns || {};
+      const patternIds = new Set([...Object.keys(basePatterns), newSettings.animationPattern]);
+      const patterns: Record<string, PatternParams> = {};
+      patternIds.forEach(pattern => {
+        patterns[pattern] = {
+          ...basePatterns[pattern],
+          enabled: pattern === newSettings.animationPattern
+        };
       });
+      newSettings.patterns = patterns;
     }
 
     // Handle photo count validation
     if (newSettings.photoCount !== undefined) {
-      const count = Math.min(Math.max(5, Math.floor(Number(newSettings.photoCount))), 500);
+      const count = Math.min(Math.max(5, Math.floor(Number(newSettings.photoCount))), MAX_PHOTO_COUNT);
       if (!isNaN(count)) {
         newSettings.photoCount = count;
       } else {
@@ -37,18 +37,27 @@ export interface Database {
           id: string
           collage_id: string
           url: string
+          thumbnail_url: string | null
+          perceptual_hash: string | null
+          duplicate_of: string | null
           created_at: string
         }
         Insert: {
           id?: string
           collage_id: string
           url: string
+          thumbnail_url?: string | null
+          perceptual_hash?: string | null
+          duplicate_of?: string | null
           created_at?: string
         }
         Update: {
           id?: string
           collage_id?: string
           url?: string
+          thumbnail_url?: string | null
+          perceptual_hash?: string | null
+          duplicate_of?: string | null
           created_at?: string
         }
       }
@@ -75,6 +84,35 @@ export interface Database {
           updated_at?: string | null
         }
       }
+      scene_presets: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          settings: Json
+          thumbnail_url: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id?: string
+          name: string
+          settings: Json
+          thumbnail_url?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          settings?: Json
+          thumbnail_url?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+      }
       high_scores: {
         Row: {
           id: string
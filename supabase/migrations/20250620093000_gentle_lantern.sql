@@ -0,0 +1,49 @@
+/*
+  # Scene presets
+
+  1. New Tables
+    - `scene_presets`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users, defaults to the signed-in user)
+      - `name` (text)
+      - `settings` (jsonb, versioned scene settings as stored in collage_settings)
+      - `thumbnail_url` (text, canvas capture in the photos bucket)
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `scene_presets`
+    - Users can only see and manage their own presets
+*/
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS scene_presets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  settings jsonb NOT NULL,
+  thumbnail_url text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS scene_presets_user_id_idx ON scene_presets(user_id, created_at DESC);
+
+ALTER TABLE scene_presets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "scene_presets_owner" ON scene_presets;
+
+CREATE POLICY "scene_presets_owner"
+ON scene_presets
+FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+DROP TRIGGER IF EXISTS update_scene_presets_updated_at ON scene_presets;
+CREATE TRIGGER update_scene_presets_updated_at
+  BEFORE UPDATE ON scene_presets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMIT;
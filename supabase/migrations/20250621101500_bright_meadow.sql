@@ -0,0 +1,9 @@
+/*
+  # Photo thumbnails
+
+  1. Changes
+    - `photos.thumbnail_url` (text, nullable) - small preview made in the browser at upload time,
+      stored next to the resized photo in the `photos` bucket. Older photos have none and fall back to `url`.
+*/
+
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS thumbnail_url text;
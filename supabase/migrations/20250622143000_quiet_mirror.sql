@@ -0,0 +1,15 @@
+/*
+  # Duplicate photo detection
+
+  1. Changes
+    - `photos.perceptual_hash` (text, nullable) - 64-bit difference hash (16 hex characters) computed in
+      the browser at upload time. Photos uploaded before this have none and are never matched.
+    - `photos.duplicate_of` (uuid, nullable) - set when an upload looked like an existing photo in the
+      same collage and the collage's `duplicatePhotoPolicy` setting is 'flag'. Moderators clear it to keep
+      the photo. Cleared automatically if the original is deleted.
+*/
+
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS perceptual_hash text;
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS duplicate_of uuid REFERENCES photos(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS photos_duplicate_of_idx ON photos(duplicate_of) WHERE duplicate_of IS NOT NULL;
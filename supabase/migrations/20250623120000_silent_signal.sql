@@ -0,0 +1,36 @@
+/*
+  # Private remote control channel
+
+  1. Security
+    - Remote commands travel over the private Realtime broadcast channel `remote-<collage id>`, so Realtime
+      checks these policies on `realtime.messages` when a client joins it:
+      - Anyone (the live displays are public pages) can receive commands for an existing collage.
+      - Only the signed-in owner of the collage can send them.
+    - Display status reports go over the separate public channel `remote-status-<collage id>` and carry
+      nothing but what the display is showing, so they need no policy.
+*/
+
+CREATE POLICY "Anyone can receive remote commands"
+  ON realtime.messages
+  FOR SELECT
+  TO anon, authenticated
+  USING (
+    realtime.messages.extension = 'broadcast'
+    AND EXISTS (
+      SELECT 1 FROM public.collages
+      WHERE 'remote-' || collages.id::text = (SELECT realtime.topic())
+    )
+  );
+
+CREATE POLICY "Collage owners can send remote commands"
+  ON realtime.messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'broadcast'
+    AND EXISTS (
+      SELECT 1 FROM public.collages
+      WHERE 'remote-' || collages.id::text = (SELECT realtime.topic())
+      AND collages.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,36 @@
+/*
+  # Private playback sync channel
+
+  1. Security
+    - Synced screens share their clock over the private Realtime channel `playback-<collage id>`, so
+      Realtime checks these policies on `realtime.messages` when a client joins it:
+      - Anyone (guests' phones open the same public viewer) can receive the leader's state and see who
+        is taking part.
+      - Only the signed-in owner of the collage can broadcast or track presence, so only the owner's
+        screens can be elected leader and drive the pattern and spotlights on every display.
+*/
+
+CREATE POLICY "Anyone can receive playback sync"
+  ON realtime.messages
+  FOR SELECT
+  TO anon, authenticated
+  USING (
+    realtime.messages.extension IN ('broadcast', 'presence')
+    AND EXISTS (
+      SELECT 1 FROM public.collages
+      WHERE 'playback-' || collages.id::text = (SELECT realtime.topic())
+    )
+  );
+
+CREATE POLICY "Collage owners can lead playback sync"
+  ON realtime.messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.messages.extension IN ('broadcast', 'presence')
+    AND EXISTS (
+      SELECT 1 FROM public.collages
+      WHERE 'playback-' || collages.id::text = (SELECT realtime.topic())
+      AND collages.user_id = auth.uid()
+    )
+  );